@@ -0,0 +1,555 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup, within } from '@testing-library/react';
+import { DEFAULT_ANGLE_PACK } from './services/anglePresets';
+import { GenerationError, SafetyBlockError } from './services/errors';
+import { saveImages, saveSourceImage } from './services/imageLibrary';
+import { prepareUpload } from './services/uploadProcessing';
+
+const { fakeProvider, SOURCE } = vi.hoisted(() => ({
+  SOURCE: 'data:image/png;base64,U09VUkNF',
+  fakeProvider: {
+    id: 'fake',
+    models: { generate: 'fake-pro', edit: 'fake-flash', upscale: 'fake-pro', text: 'fake-text' },
+    requiresApiKey: true,
+    generate: vi.fn(),
+    edit: vi.fn(),
+    upscale: vi.fn(),
+    inpaint: vi.fn(),
+    refine: vi.fn(),
+    rephrase: vi.fn(),
+  },
+}));
+
+vi.mock('./services/imageProvider', () => ({
+  getImageProvider: () => fakeProvider,
+}));
+
+// jsdom has no IndexedDB; the library is exercised through App state only
+vi.mock('./services/imageLibrary', async importOriginal => ({
+  ...(await importOriginal<typeof import('./services/imageLibrary')>()),
+  listImages: vi.fn().mockResolvedValue([]),
+  saveImages: vi.fn().mockResolvedValue(undefined),
+  saveSourceImage: vi.fn().mockResolvedValue('source-1'),
+  getSourceImage: vi.fn().mockResolvedValue(null),
+  setImagesDeleted: vi.fn().mockResolvedValue(undefined),
+  purgeImages: vi.fn().mockResolvedValue(undefined),
+}));
+
+// jsdom's Blob cannot be read back and it has no canvas, so uploads skip format detection and re-encoding
+vi.mock('./services/uploadProcessing', async importOriginal => ({
+  ...(await importOriginal<typeof import('./services/uploadProcessing')>()),
+  readUploadSource: vi.fn(async (file: File) => ({ name: file.name, dataUrl: SOURCE, mimeType: 'image/png', bytes: 3_000_000, exif: { orientation: 6, hasLocation: true } })),
+  prepareUpload: vi.fn().mockResolvedValue({ dataUrl: SOURCE, mimeType: 'image/png', width: 2048, height: 1536, bytes: 400_000, sourceWidth: 4032, sourceHeight: 3024 }),
+}));
+
+import App from './App';
+
+const ANGLE_COUNT = DEFAULT_ANGLE_PACK.angles.length;
+
+const image = (label: string) => ({ data: `data:image/png;base64,${btoa(label)}`, mimeType: 'image/png' });
+
+const uploadSource = async () => {
+  const file = new File(['source'], 'source.png', { type: 'image/png' });
+  fireEvent.change(document.getElementById('image-upload')!, { target: { files: [file] } });
+  await screen.findByText('390.6 KB · 2048×1536');
+  fireEvent.click(screen.getByRole('button', { name: 'Use image' }));
+  await screen.findByAltText('Input');
+};
+
+const generateButton = (name: RegExp) => screen.getByRole('button', { name });
+
+const enterPrompt = (text: string) => {
+  fireEvent.click(screen.getByRole('button', { name: /Generate New/ }));
+  fireEvent.change(screen.getByPlaceholderText(/Describe the image/), { target: { value: text } });
+};
+
+describe('App generation flow', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.aistudio = { hasSelectedApiKey: vi.fn().mockResolvedValue(true), openSelectKey: vi.fn().mockResolvedValue(undefined) };
+    fakeProvider.generate.mockReset();
+    fakeProvider.edit.mockReset();
+    fakeProvider.upscale.mockReset();
+    fakeProvider.inpaint.mockReset();
+    fakeProvider.refine.mockReset();
+    fakeProvider.rephrase.mockReset();
+  });
+
+  afterEach(() => {
+    cleanup();
+    delete window.aistudio;
+  });
+
+  it('shows the API key dialog when no key is selected', async () => {
+    window.aistudio!.hasSelectedApiKey = vi.fn().mockResolvedValue(false);
+
+    render(<App />);
+
+    expect(await screen.findByText('API Key Required')).toBeTruthy();
+  });
+
+  describe('angle variations', () => {
+    it('fills the grid with one image per angle', async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      expect(await screen.findByText(`${ANGLE_COUNT} images generated`)).toBeTruthy();
+      expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT);
+      expect(fakeProvider.edit.mock.calls[0][0]).toMatchObject({ image: SOURCE, aspectRatio: '1:1' });
+      for (const angle of DEFAULT_ANGLE_PACK.angles) {
+        expect(screen.getByText(angle.name)).toBeTruthy();
+      }
+    });
+
+    it('keeps failed angles as retryable placeholders', async () => {
+      const failing = DEFAULT_ANGLE_PACK.angles[1];
+      let failures = 1;
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => {
+        if (prompt.includes(failing.promptSuffix) && failures-- > 0) throw new Error('Model refused this angle');
+        return image(prompt);
+      });
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      expect(await screen.findByText(`${ANGLE_COUNT - 1} images generated`)).toBeTruthy();
+      expect(screen.getByText('Model refused this angle')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: /Retry/ }));
+
+      expect(await screen.findByText(`${ANGLE_COUNT} images generated`)).toBeTruthy();
+      expect(screen.queryByText('Model refused this angle')).toBeNull();
+      expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT + 1);
+    });
+
+    it('regenerates an angle with the aspect ratio of its run', async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      await uploadSource();
+      fireEvent.click(generateButton(/Generate Variations/));
+      await screen.findByText(`${ANGLE_COUNT} images generated`);
+
+      fireEvent.change(screen.getByDisplayValue('Square (1:1)'), { target: { value: '16:9' } });
+      fireEvent.click(screen.getAllByTitle('Regenerate this angle')[0]);
+
+      await waitFor(() => expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT + 1));
+      expect(fakeProvider.edit.mock.calls[ANGLE_COUNT][0]).toMatchObject({ image: SOURCE, aspectRatio: '1:1' });
+    });
+
+    it('does not regenerate an angle from another source than its run had', async () => {
+      // The source is still being saved when the run starts, so its images have no source to go back to
+      vi.mocked(saveSourceImage).mockReturnValueOnce(new Promise(() => {}));
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      await uploadSource();
+      fireEvent.click(generateButton(/Generate Variations/));
+      await screen.findByText(`${ANGLE_COUNT} images generated`);
+
+      fireEvent.click(screen.getAllByTitle('Regenerate this angle')[0]);
+
+      expect(await screen.findByText('The source image of this run is no longer available.')).toBeTruthy();
+      expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT);
+    });
+
+    it('shows why a blocked angle has no image', async () => {
+      const blocked = DEFAULT_ANGLE_PACK.angles[0];
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => {
+        if (prompt.includes(blocked.promptSuffix)) {
+          throw new SafetyBlockError('IMAGE_SAFETY', ['HARM_CATEGORY_DANGEROUS_CONTENT'], 'I cannot show that.');
+        }
+        return image(prompt);
+      });
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      expect(await screen.findByText('Blocked: image safety — Dangerous content')).toBeTruthy();
+      expect(screen.getByText('“I cannot show that.”')).toBeTruthy();
+    });
+
+    it('reports an error when every angle fails', async () => {
+      fakeProvider.edit.mockRejectedValue(new Error('Service exploded'));
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      await waitFor(() => expect(screen.getAllByText('Service exploded').length).toBe(ANGLE_COUNT + 1));
+      expect(screen.queryByText(/images? generated/)).toBeNull();
+    });
+
+    it('asks for a new API key when the key is rejected', async () => {
+      fakeProvider.edit.mockRejectedValue(new GenerationError('auth', 'Requested entity was not found.', { status: 404 }));
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      expect(await screen.findByText('API Key Required')).toBeTruthy();
+    });
+  });
+
+  describe('source upload', () => {
+    it('prepares the picked image before it becomes the source', async () => {
+      vi.mocked(prepareUpload).mockClear();
+      render(<App />);
+
+      const file = new File(['source'], 'IMG_0042.jpg', { type: 'image/jpeg' });
+      fireEvent.change(document.getElementById('image-upload')!, { target: { files: [file] } });
+      const dialog = await screen.findByRole('dialog', { name: 'Prepare source image' });
+      expect(await within(dialog).findByText('2.86 MB · 4032×3024')).toBeTruthy();
+      expect(within(dialog).getByText('Camera details and the GPS location are removed.')).toBeTruthy();
+
+      fireEvent.click(within(dialog).getByLabelText(/Crop to 1:1/));
+      await waitFor(() => expect(prepareUpload).toHaveBeenLastCalledWith(
+        expect.anything(),
+        { maxDimension: 2048, crop: { x: 0.125, y: 0, width: 0.75, height: 1 } },
+      ));
+      await within(dialog).findByText('390.6 KB · 2048×1536');
+      fireEvent.click(within(dialog).getByRole('button', { name: 'Use image' }));
+
+      expect(await screen.findByAltText('Input')).toBeTruthy();
+      expect(screen.queryByRole('dialog')).toBeNull();
+    });
+  });
+
+  describe('text to image', () => {
+    it('generates an image from the prompt', async () => {
+      fakeProvider.generate.mockResolvedValue(image('fox'));
+      render(<App />);
+      enterPrompt('a red fox');
+
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByAltText('a red fox')).toBeTruthy();
+      expect(fakeProvider.generate).toHaveBeenCalledWith(
+        { prompt: 'a red fox', size: '1K', aspectRatio: '1:1', references: [], seed: expect.any(Number), temperature: undefined },
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('composes template variables, style and avoid list into the sent prompt', async () => {
+      fakeProvider.generate.mockResolvedValue(image('fox'));
+      render(<App />);
+      enterPrompt('{{subject}} in {{lighting}} light');
+
+      fireEvent.click(generateButton(/Generate Image/));
+      expect(await screen.findByText('Fill in the template variables: subject, lighting.')).toBeTruthy();
+
+      fireEvent.change(screen.getByLabelText('Value for subject'), { target: { value: 'a red fox' } });
+      fireEvent.change(screen.getByLabelText('Value for lighting'), { target: { value: 'golden' } });
+      fireEvent.change(screen.getByLabelText('Style preset'), { target: { value: 'watercolor' } });
+      fireEvent.change(screen.getByLabelText('Avoid (negative prompt)'), { target: { value: 'text' } });
+      const final = 'a red fox in golden light, watercolor painting, soft washes, visible paper texture. Avoid: text, photo, hard edges.';
+      expect(screen.getByText(final)).toBeTruthy();
+
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByAltText(final)).toBeTruthy();
+      expect(fakeProvider.generate.mock.calls[0][0].prompt).toBe(final);
+      const [saved] = vi.mocked(saveImages).mock.calls.at(-1)![0];
+      expect(saved.recipe).toEqual({
+        template: '{{subject}} in {{lighting}} light',
+        variables: { subject: 'a red fox', lighting: 'golden' },
+        styleId: 'watercolor',
+        negativePrompt: 'text',
+      });
+    });
+
+    it('generates several seeded candidates and records the picked winner', async () => {
+      fakeProvider.generate.mockImplementation(async ({ seed }: { seed: number }) => image(`fox ${seed}`));
+      render(<App />);
+      enterPrompt('a red fox');
+      fireEvent.change(screen.getByDisplayValue('1 image'), { target: { value: '3' } });
+
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByRole('button', { name: 'Pick candidate #3 as winner' })).toBeTruthy();
+      const seeds = fakeProvider.generate.mock.calls.map(([request]) => request.seed);
+      expect(seeds).toEqual([seeds[0], seeds[0] + 1, seeds[0] + 2]);
+
+      const star = screen.getByRole('button', { name: 'Pick candidate #2 as winner' });
+      fireEvent.click(star);
+
+      expect(star.getAttribute('aria-pressed')).toBe('true');
+      expect(screen.getByRole('button', { name: 'Pick candidate #1 as winner' }).getAttribute('aria-pressed')).toBe('false');
+    });
+
+    it('shows the error when generation fails', async () => {
+      fakeProvider.generate.mockRejectedValue(new Error('No image generated by the model.'));
+      render(<App />);
+      enterPrompt('a red fox');
+
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByText('No image generated by the model.')).toBeTruthy();
+      expect(screen.queryByText('API Key Required')).toBeNull();
+    });
+
+    it('explains a safety block without offering a plain retry', async () => {
+      fakeProvider.generate.mockRejectedValue(new SafetyBlockError('IMAGE_SAFETY', ['HARM_CATEGORY_DANGEROUS_CONTENT']));
+      render(<App />);
+      enterPrompt('a red fox');
+
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByText('Blocked by safety filters')).toBeTruthy();
+      expect(screen.getByText(/\(IMAGE_SAFETY\): Dangerous content/)).toBeTruthy();
+      expect(screen.queryByRole('button', { name: /Try again/ })).toBeNull();
+    });
+
+    it('suggests a rephrased prompt after a safety block', async () => {
+      fakeProvider.generate.mockRejectedValue(new SafetyBlockError('SAFETY', [], 'That request is not allowed.'));
+      fakeProvider.rephrase.mockResolvedValue({ text: 'a cartoon fox in a forest', usage: { inputTokens: 90, outputTokens: 10 } });
+      render(<App />);
+      enterPrompt('a gory fox');
+      fireEvent.click(generateButton(/Generate Image/));
+
+      expect(await screen.findByText('Model: “That request is not allowed.”')).toBeTruthy();
+      fireEvent.click(screen.getByRole('button', { name: /Suggest a rephrased prompt/ }));
+      fireEvent.click(await screen.findByRole('button', { name: /Use this prompt/ }));
+
+      expect(fakeProvider.rephrase).toHaveBeenCalledWith('a gory fox', 'Blocked: safety', undefined);
+      expect((screen.getByPlaceholderText(/Describe the image/) as HTMLTextAreaElement).value).toBe('a cartoon fox in a forest');
+      expect(screen.queryByText('Blocked by safety filters')).toBeNull();
+      const ledger = JSON.parse(localStorage.getItem('grid-usage-ledger')!);
+      expect(ledger).toEqual([
+        expect.objectContaining({ model: 'fake-pro', operation: 'generate', outcome: 'failed' }),
+        expect.objectContaining({ model: 'fake-text', operation: 'rephrase', outcome: 'success', usage: { inputTokens: 90, outputTokens: 10 } }),
+      ]);
+    });
+
+    it('offers to retry an unexpected failure', async () => {
+      fakeProvider.generate
+        .mockRejectedValueOnce(new GenerationError('unknown', 'Unexpected response'))
+        .mockResolvedValueOnce(image('fox'));
+      render(<App />);
+      enterPrompt('a red fox');
+      fireEvent.click(generateButton(/Generate Image/));
+
+      fireEvent.click(await screen.findByRole('button', { name: /Try again/ }));
+
+      expect(await screen.findByAltText('a red fox')).toBeTruthy();
+    });
+
+    it('upscales an image from the viewer', async () => {
+      fakeProvider.generate.mockResolvedValue(image('fox'));
+      fakeProvider.upscale.mockResolvedValue(image('big fox'));
+      render(<App />);
+      enterPrompt('a red fox');
+      fireEvent.click(generateButton(/Generate Image/));
+      fireEvent.click(await screen.findByAltText('a red fox'));
+
+      fireEvent.click(screen.getByRole('button', { name: /Upscale to 4K/ }));
+
+      expect(await screen.findByText('Done')).toBeTruthy();
+      expect(fakeProvider.upscale).toHaveBeenCalledWith(
+        { image: image('fox').data, prompt: 'a red fox', size: '4K', aspectRatio: '1:1' },
+        expect.any(AbortSignal)
+      );
+    });
+  });
+
+  describe('refinement', () => {
+    const send = (instruction: string) => {
+      fireEvent.change(screen.getByLabelText('Refinement instruction'), { target: { value: instruction } });
+      fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+    };
+
+    it('keeps earlier turns as context and branches from an earlier turn', async () => {
+      fakeProvider.generate.mockResolvedValue(image('fox'));
+      fakeProvider.refine.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      enterPrompt('a red fox');
+      fireEvent.click(generateButton(/Generate Image/));
+      fireEvent.click(await screen.findByAltText('a red fox'));
+
+      send('warmer light');
+      await screen.findByRole('button', { name: 'Turn 1' });
+      send('now remove the chair');
+      await screen.findByRole('button', { name: 'Turn 2' });
+      expect(fakeProvider.refine).toHaveBeenLastCalledWith(
+        {
+          image: image('fox').data,
+          turns: [{ instruction: 'warmer light', image: image('warmer light').data }],
+          prompt: 'now remove the chair',
+          aspectRatio: '1:1',
+        },
+        expect.any(AbortSignal)
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Turn 1' }));
+      expect(screen.getByText('Sending from here starts a new branch.')).toBeTruthy();
+      send('add a hat');
+
+      const conversation = () => within(screen.getByRole('list', { name: 'Refinement conversation' }));
+      expect(await screen.findByText('2/2')).toBeTruthy();
+      expect(fakeProvider.refine.mock.calls[2][0].turns).toEqual([{ instruction: 'warmer light', image: image('warmer light').data }]);
+      expect(conversation().getByText('add a hat')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Previous branch of turn 2' }));
+      expect(await screen.findByText('1/2')).toBeTruthy();
+      expect(conversation().getByText('now remove the chair')).toBeTruthy();
+    });
+  });
+
+  describe('usage and budget', () => {
+    // $0.03 per angle
+    const priceEdits = (budget: object) => {
+      localStorage.setItem('grid-usage-prices', JSON.stringify({ 'fake-flash': { inputPerMillion: 0, outputPerMillion: 30, imageTokens: { '1K': 1000 } } }));
+      localStorage.setItem('grid-usage-budget', JSON.stringify(budget));
+    };
+
+    it('blocks a run that would go over a blocking budget', async () => {
+      priceEdits({ limit: 0.1, mode: 'block' });
+      render(<App />);
+      await uploadSource();
+
+      expect(screen.getByText(/^Estimated \$0\.\d\d · \$0\.00 of \$0\.10 used this session$/)).toBeTruthy();
+      fireEvent.click(generateButton(/Generate Variations/));
+
+      expect(await screen.findByText(/over the \$0\.10 budget/)).toBeTruthy();
+      expect(fakeProvider.edit).not.toHaveBeenCalled();
+    });
+
+    it('blocks regenerating a tile once the run used up a blocking budget', async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      priceEdits({ limit: ANGLE_COUNT * 0.03 + 0.01, mode: 'block' });
+      render(<App />);
+      await uploadSource();
+      fireEvent.click(generateButton(/Generate Variations/));
+      await screen.findByText(`${ANGLE_COUNT} images generated`);
+
+      fireEvent.click(screen.getAllByTitle('Regenerate this angle')[0]);
+
+      expect(await screen.findByText(/over the \$\d+\.\d\d budget/)).toBeTruthy();
+      expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT);
+    });
+
+    it('asks before a run over a warning budget and records each call', async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => ({ ...image(prompt), usage: { inputTokens: 400, outputTokens: 1000 } }));
+      priceEdits({ limit: 0.1, mode: 'warn' });
+      render(<App />);
+      await uploadSource();
+
+      fireEvent.click(generateButton(/Generate Variations/));
+      const warning = await screen.findByRole('alertdialog', { name: 'Over budget' });
+      fireEvent.click(within(warning).getByRole('button', { name: 'Run anyway' }));
+
+      expect(await screen.findByText(`${ANGLE_COUNT} images generated`)).toBeTruthy();
+      const ledger = JSON.parse(localStorage.getItem('grid-usage-ledger')!);
+      expect(ledger).toHaveLength(ANGLE_COUNT);
+      expect(ledger[0]).toMatchObject({ model: 'fake-flash', operation: 'edit', usage: { inputTokens: 400, outputTokens: 1000 } });
+
+      fireEvent.click(screen.getByRole('button', { name: /Usage/ }));
+      const dashboard = screen.getByRole('dialog', { name: 'Usage' });
+      expect(within(dashboard).getByRole('cell', { name: 'Angle / edit' })).toBeTruthy();
+      expect(within(dashboard).getByRole('cell', { name: (ANGLE_COUNT * 400).toLocaleString() + ' / ' + (ANGLE_COUNT * 1000).toLocaleString() })).toBeTruthy();
+    });
+  });
+
+  describe('keyboard', () => {
+    const tiles = () => Array.from(document.querySelectorAll<HTMLElement>('[data-image-id]'));
+
+    const generateAngles = async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      await uploadSource();
+      fireEvent.click(generateButton(/Generate Variations/));
+      await screen.findByText(`${ANGLE_COUNT} images generated`);
+    };
+
+    it('moves between tiles and steps through the run in the viewer', async () => {
+      fakeProvider.upscale.mockResolvedValue(image('big'));
+      await generateAngles();
+
+      tiles()[0].focus();
+      fireEvent.keyDown(tiles()[0], { key: 'ArrowRight' });
+      expect(document.activeElement).toBe(tiles()[1]);
+
+      // Tiles open through a native button, which browsers click on Enter and Space
+      expect(tiles()[1].tagName).toBe('BUTTON');
+      fireEvent.click(tiles()[1]);
+      const viewer = screen.getByRole('dialog', { name: 'Image viewer' });
+      expect(within(viewer).getByText(`2 / ${ANGLE_COUNT}`)).toBeTruthy();
+      expect(viewer.contains(document.activeElement)).toBe(true);
+
+      fireEvent.keyDown(viewer, { key: 'ArrowRight' });
+      expect(within(viewer).getByText(`3 / ${ANGLE_COUNT}`)).toBeTruthy();
+      fireEvent.keyDown(viewer, { key: 'Home' });
+      expect(within(viewer).getByText(`1 / ${ANGLE_COUNT}`)).toBeTruthy();
+
+      fireEvent.keyDown(viewer, { key: 'u' });
+      expect(await within(viewer).findByText('Done')).toBeTruthy();
+      expect(fakeProvider.upscale).toHaveBeenCalledTimes(1);
+
+      fireEvent.keyDown(viewer, { key: 'Escape' });
+      expect(screen.queryByRole('dialog', { name: 'Image viewer' })).toBeNull();
+    });
+
+    it('ignores shortcuts while typing in the viewer', async () => {
+      await generateAngles();
+      fireEvent.click(tiles()[0]);
+
+      fireEvent.keyDown(screen.getByLabelText('Refinement instruction'), { key: 'ArrowRight' });
+
+      expect(screen.getByText(`1 / ${ANGLE_COUNT}`)).toBeTruthy();
+    });
+
+    it('keeps Tab inside the viewer', async () => {
+      await generateAngles();
+      fireEvent.click(tiles()[0]);
+      const viewer = screen.getByRole('dialog', { name: 'Image viewer' });
+      const close = within(viewer).getByRole('button', { name: 'Close viewer' });
+
+      close.focus();
+      fireEvent.keyDown(close, { key: 'Tab', shiftKey: true });
+
+      expect(viewer.contains(document.activeElement)).toBe(true);
+      expect(document.activeElement).not.toBe(close);
+    });
+
+    it('opens the shortcut cheat sheet with ?', async () => {
+      render(<App />);
+
+      fireEvent.keyDown(document.body, { key: '?' });
+
+      const sheet = await screen.findByRole('dialog', { name: 'Keyboard shortcuts' });
+      expect(within(sheet).getByText('Upscale to 4K')).toBeTruthy();
+      fireEvent.keyDown(sheet, { key: 'Escape' });
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).toBeNull();
+    });
+  });
+
+  describe('batch', () => {
+    it('runs the angle pack over every source and groups the results', async () => {
+      fakeProvider.edit.mockImplementation(async ({ prompt }: { prompt: string }) => image(prompt));
+      render(<App />);
+      fireEvent.click(screen.getByRole('button', { name: 'Batch' }));
+      const files = ['shot-2.png', 'shot-10.png', 'notes.txt'].map(name => new File(['x'], name, { type: name.endsWith('.png') ? 'image/png' : 'text/plain' }));
+      fireEvent.change(document.getElementById('batch-upload')!, { target: { files } });
+      expect(await screen.findByText('0 of 2 done')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: /Start batch/ }));
+
+      const first = await screen.findByRole('region', { name: 'shot-2.png' });
+      await waitFor(() => expect(within(first).getAllByRole('img')).toHaveLength(ANGLE_COUNT));
+      const second = await screen.findByRole('region', { name: 'shot-10.png' });
+      await waitFor(() => expect(within(second).getAllByRole('img')).toHaveLength(ANGLE_COUNT));
+      expect(fakeProvider.edit).toHaveBeenCalledTimes(ANGLE_COUNT * 2);
+      expect(screen.getByText('2 of 2 done')).toBeTruthy();
+      expect(screen.getByRole('button', { name: /Export all/ })).toBeTruthy();
+
+      // The viewer steps through the results of the source the image was opened from
+      fireEvent.click(second.querySelectorAll<HTMLElement>('[data-image-id]')[1]);
+      const viewer = screen.getByRole('dialog', { name: 'Image viewer' });
+      expect(within(viewer).getByText(`2 / ${ANGLE_COUNT}`)).toBeTruthy();
+    });
+  });
+});
@@ -1,10 +1,49 @@
-import React, { useState, useEffect } from 'react';
-import { Image, Upload, Wand2, Download, Maximize2, X, Grid, Camera, ZoomIn } from 'lucide-react';
-import { generateImagePro, editImageFlash, upscaleImage, checkApiKeySelection, openApiKeySelection } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Image, Upload, Wand2, Maximize2, X, Grid, Camera, History, SlidersHorizontal, Square, LayoutGrid, Archive, Brush, Layers, Wallet, Film, Keyboard, ChevronLeft, ChevronRight } from 'lucide-react';
+import { checkApiKeySelection, openApiKeySelection } from './services/geminiService';
+import { getImageProvider } from './services/imageProvider';
 import { Button } from './components/Button';
 import { Spinner } from './components/Spinner';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { ImageResult, GenerationMode, ImageSize, AspectRatio } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AnglePresetManager } from './components/AnglePresetManager';
+import { JobStatusTile } from './components/JobStatusTile';
+import { ResultTile } from './components/ResultTile';
+import { DownloadMenu } from './components/DownloadMenu';
+import { ContactSheetDialog } from './components/ContactSheetDialog';
+import { TurnaroundDialog } from './components/TurnaroundDialog';
+import { RefinementChat } from './components/RefinementChat';
+import { UsageDashboard } from './components/UsageDashboard';
+import { BudgetWarning } from './components/BudgetWarning';
+import { UploadDialog } from './components/UploadDialog';
+import { MaskEditor } from './components/MaskEditor';
+import { ReferenceTray } from './components/ReferenceTray';
+import { ErrorNotice } from './components/ErrorNotice';
+import { LineagePanel } from './components/LineagePanel';
+import { ImageInspector, InspectorControls } from './components/ImageInspector';
+import { ModalDialog } from './components/ModalDialog';
+import { ShortcutSheet } from './components/ShortcutSheet';
+import { CandidateComparison } from './components/CandidateComparison';
+import { PromptComposer } from './components/PromptComposer';
+import { BatchPanel } from './components/BatchPanel';
+import { BatchResults } from './components/BatchResults';
+import { listImages, saveImages, saveSourceImage, getSourceImage, setImagesDeleted, purgeImages } from './services/imageLibrary';
+import { formatLabel, downloadDataUrl, loadImage, dataUrlByteSize, formatBytes, imageFilename } from './services/imageFormat';
+import { maskToBlackAndWhite, compositeWithMask } from './services/inpainting';
+import { ASPECT_RATIOS, closestAspectRatio } from './services/aspectRatio';
+import { buildRunArchive, buildBatchArchive } from './services/runArchive';
+import { buildRunTiles } from './services/runTiles';
+import { createPauseGate, runBatch, BatchFile } from './services/batch';
+import { createGenerationQueue, isAbortError, JobProgress, DEFAULT_QUEUE_OPTIONS } from './services/generationQueue';
+import { hasErrorKind, describeFailure } from './services/errors';
+import { planCandidates, MAX_CANDIDATES } from './services/candidates';
+import { loadAnglePacks, saveAnglePacks, loadSelectedPackId, saveSelectedPackId } from './services/anglePresets';
+import { getRefinementThread, toRefineTurns } from './services/refinement';
+import { isTypingTarget, matchShortcut, navigateIndex } from './services/shortcuts';
+import { appendUsage, checkBudget, estimateCallCost, formatCost, loadBudget, loadPrices, loadSessionStart, loadUsageLedger, saveBudget, savePrices, saveSessionStart, saveUsageLedger, totalCost, trackUsage } from './services/usage';
+import { loadUploadSettings, saveUploadSettings, prepareUpload, readUploadSource, PreparedUpload, UploadSource } from './services/uploadProcessing';
+import { composePrompt, createPromptRecipe, missingVariables, loadPromptTemplates, savePromptTemplates, findStylePreset, DEFAULT_PROMPT_OPTIONS } from './services/promptTemplates';
+import { ImageResult, GenerationMode, ImageSize, AspectRatio, HistoryRun, AnglePack, AngleRef, AngleFailure, ReferenceImage, OperationParams, ImageOperation, GeneratedImage, CandidateVariation, CameraAngle, PromptOptions, PromptTemplate, BatchItem, BudgetSettings, OperationType, UsageEntry, UsageOperation } from './types';
 
 // Extend window definition for AI Studio specific API
 declare global {
@@ -12,35 +51,247 @@ declare global {
     hasSelectedApiKey: () => Promise<boolean>;
     openSelectKey: () => Promise<void>;
   }
+
+  interface Window {
+    aistudio?: AIStudio;
+  }
 }
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<GenerationMode>(GenerationMode.EDIT_ANGLES);
   const [prompt, setPrompt] = useState('');
   const [inputImage, setInputImage] = useState<string | null>(null);
-  const [generatedImages, setGeneratedImages] = useState<ImageResult[]>([]);
+  const [sourceImageId, setSourceImageId] = useState<string | null>(null);
+  // A picked file waiting to be turned upright, cropped and scaled before it becomes the source
+  const [pendingUpload, setPendingUpload] = useState<UploadSource | null>(null);
+  const [uploadSettings, setUploadSettings] = useState(loadUploadSettings);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [selectedSize, setSelectedSize] = useState<ImageSize>(ImageSize.SIZE_1K);
   const [selectedRatio, setSelectedRatio] = useState<AspectRatio>('1:1');
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidateVariation, setCandidateVariation] = useState<CandidateVariation>('seed');
+
+  // The prompt box holds a template; variables, style and avoid list are composed into the final prompt
+  const [promptOptions, setPromptOptions] = useState<PromptOptions>(DEFAULT_PROMPT_OPTIONS);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
   
   // Modal / Viewer state
   const [viewImage, setViewImage] = useState<ImageResult | null>(null);
   const [isUpscaling, setIsUpscaling] = useState(false);
-  const [zoomLevel, setZoomLevel] = useState(1);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [viewSourceImage, setViewSourceImage] = useState<string | null>(null);
+  const [viewDimensions, setViewDimensions] = useState<{ width: number; height: number } | null>(null);
 
   // API Key State
   const [hasApiKey, setHasApiKey] = useState(true);
 
+  // Usage ledger: every provider call is recorded so spend can be estimated and capped per session
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(loadUsageLedger);
+  const [usagePrices, setUsagePrices] = useState(loadPrices);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudget);
+  const [sessionStart, setSessionStart] = useState(loadSessionStart);
+  const [showUsage, setShowUsage] = useState(false);
+  const [budgetWarning, setBudgetWarning] = useState<{ message: string; run: () => void } | null>(null);
+  const provider = useMemo(
+    () => trackUsage(getImageProvider(), entry => setUsageLedger(prev => appendUsage(prev, entry))),
+    []
+  );
+
+  // Persistent library state. The grid shows the active run's images from the library.
+  const [library, setLibrary] = useState<ImageResult[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showContactSheet, setShowContactSheet] = useState(false);
+  const [showTurnaround, setShowTurnaround] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const inspectorRef = useRef<InspectorControls>(null);
+
+  // Inpainting mask for the current source image
+  const [mask, setMask] = useState<string | null>(null);
+  const [featherRadius, setFeatherRadius] = useState(12);
+
+  // Camera angle presets used by EDIT_ANGLES mode
+  const [anglePacks, setAnglePacks] = useState<AnglePack[]>(loadAnglePacks);
+  const [selectedPackId, setSelectedPackId] = useState<string>(loadSelectedPackId);
+  const [showAngleManager, setShowAngleManager] = useState(false);
+
+  const selectedPack = anglePacks.find(p => p.id === selectedPackId) ?? anglePacks[0];
+  const enabledAngles = selectedPack.angles.filter(a => a.enabled);
+
+  // Generation queue: limits parallel requests, retries transient failures and supports cancellation
+  const [maxConcurrency, setMaxConcurrency] = useState(DEFAULT_QUEUE_OPTIONS.maxConcurrency);
+  const queue = useMemo(() => createGenerationQueue({ maxConcurrency }), [maxConcurrency]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [runningJobs, setRunningJobs] = useState<{ id: string; label: string }[]>([]);
+  const [jobProgress, setJobProgress] = useState<Record<string, JobProgress>>({});
+
+  const trackJob = (jobId: string) => (progress: JobProgress) =>
+    setJobProgress(prev => ({ ...prev, [jobId]: progress }));
+
+  // Batch mode: several sources go through the angle pipeline one after another, each as its own run
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  // Read when a batch starts, which can be after a budget warning was confirmed
+  const batchItemsRef = useRef(batchItems);
+  batchItemsRef.current = batchItems;
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isBatchPaused, setIsBatchPaused] = useState(false);
+  const batchGateRef = useRef(createPauseGate());
+  const batchControllerRef = useRef<AbortController | null>(null);
+
+  // Per-angle tile state: failed angles of each run and angles currently being rerun
+  const [angleFailures, setAngleFailures] = useState<AngleFailure[]>([]);
+  const [rerunningAngleIds, setRerunningAngleIds] = useState<string[]>([]);
+
+  const generatedImages = useMemo(
+    () => library.filter(img => img.runId === activeRunId && !img.deletedAt),
+    [library, activeRunId]
+  );
+
+  const gridTiles = useMemo(
+    () => buildRunTiles(generatedImages, angleFailures, activeRunId),
+    [generatedImages, angleFailures, activeRunId]
+  );
+
+  // The run's images in grid order, so exports number and lay them out as on screen
+  const runImages = useMemo(
+    () => gridTiles.flatMap(tile => tile.image ? [tile.image] : []),
+    [gridTiles]
+  );
+
+  // Views of the subject that can be played as a turnaround, in grid order
+  const angleImages = useMemo(() => runImages.filter(img => img.angle), [runImages]);
+
+  const batchRuns = useMemo(
+    () => batchItems.map(item => ({
+      item,
+      tiles: buildRunTiles(library.filter(img => img.runId === item.runId && !img.deletedAt), angleFailures, item.runId),
+    })),
+    [batchItems, library, angleFailures]
+  );
+
+  // Candidates of a multi-candidate run are shown in the comparison view instead of the grid
+  const candidateImages = useMemo(
+    () => generatedImages.filter(img => img.candidate).sort((a, b) => a.candidate!.index - b.candidate!.index),
+    [generatedImages]
+  );
+  const listedTiles = candidateImages.length > 1 ? gridTiles.filter(tile => !tile.image?.candidate) : gridTiles;
+
+  // Images of the list the viewed image was opened from, in the order they are shown, for
+  // stepping through them in the viewer. In a batch each source has a list of its own.
+  const galleryImages = useMemo(() => {
+    if (mode === GenerationMode.BATCH) {
+      const run = batchRuns.find(({ item }) => item.runId === viewImage?.runId);
+      return run ? run.tiles.flatMap(tile => tile.image ? [tile.image] : []) : [];
+    }
+    return [
+      ...(candidateImages.length > 1 ? candidateImages : []),
+      ...listedTiles.flatMap(tile => tile.image ? [tile.image] : []),
+    ];
+  }, [mode, batchRuns, viewImage?.runId, candidateImages, listedTiles]);
+  const viewIndex = viewImage ? galleryImages.findIndex(img => img.id === viewImage.id) : -1;
+
   // Check API key status on mount
   useEffect(() => {
-    checkApiKeySelection().then(setHasApiKey);
+    if (provider.requiresApiKey) {
+      checkApiKeySelection().then(setHasApiKey);
+    }
+  }, []);
+
+  // Load the saved library on mount
+  useEffect(() => {
+    listImages()
+      .then(images => setLibrary(prev => [...prev, ...images.filter(img => !prev.some(p => p.id === img.id))]))
+      .catch(e => console.error("Failed to load image library", e));
   }, []);
 
-  // Reset zoom when viewing a new image
   useEffect(() => {
-    if (viewImage) setZoomLevel(1);
-  }, [viewImage]);
+    saveAnglePacks(anglePacks);
+  }, [anglePacks]);
+
+  useEffect(() => {
+    saveSelectedPackId(selectedPackId);
+  }, [selectedPackId]);
+
+  useEffect(() => {
+    savePromptTemplates(promptTemplates);
+  }, [promptTemplates]);
+
+  useEffect(() => {
+    saveUploadSettings(uploadSettings);
+  }, [uploadSettings]);
+
+  useEffect(() => {
+    saveUsageLedger(usageLedger);
+  }, [usageLedger]);
+
+  useEffect(() => {
+    savePrices(usagePrices);
+  }, [usagePrices]);
+
+  useEffect(() => {
+    saveBudget(budget);
+  }, [budget]);
+
+  const sessionSpend = totalCost(usageLedger, usagePrices, sessionStart);
+  const callCost = (model: string, operation: UsageOperation, size?: ImageSize) =>
+    estimateCallCost(usagePrices, model, operation, size);
+
+  // Estimated cost of what the Generate (or Start batch) button would run now
+  const runEstimate =
+    mode === GenerationMode.GENERATE ? candidateCount * callCost(provider.models.generate, 'generate', selectedSize)
+    : mode === GenerationMode.INPAINT ? callCost(provider.models.edit, 'inpaint')
+    : mode === GenerationMode.BATCH ? batchItems.filter(item => item.status !== 'done').length * enabledAngles.length * callCost(provider.models.edit, 'edit')
+    : enabledAngles.length * callCost(provider.models.edit, 'edit');
+
+  const rerunEstimate = (type: OperationType, params: OperationParams) =>
+    type === 'generate' ? callCost(provider.models.generate, 'generate', params.size)
+    : type === 'upscale' ? callCost(provider.models.upscale, 'upscale', params.size)
+    : callCost(provider.models.edit, type === 'angle' ? 'edit' : type === 'edit' ? 'inpaint' : 'refine');
+
+  // Runs `run` unless its estimated cost would take the session over budget. A blocking
+  // budget reports an error; a warning budget asks first.
+  const withinBudget = (estimate: number, run: () => void) => {
+    const message = checkBudget(budget, sessionSpend, estimate);
+    if (!message) return run();
+    if (budget.mode === 'block') {
+      setError(new Error(`${message} Raise the budget or start a new session under Usage.`));
+      return;
+    }
+    setBudgetWarning({ message, run });
+  };
+
+  const anglePrompt = (angle: CameraAngle) => prompt.trim()
+    ? composePrompt(prompt, promptOptions, [angle.promptSuffix])
+    : composePrompt(`Keep the subject but change camera to ${angle.promptSuffix}`, promptOptions);
+
+  // Preview of what will be sent; angle runs show the first enabled angle
+  const usesAngles = mode === GenerationMode.EDIT_ANGLES || mode === GenerationMode.BATCH;
+  const previewAngle = usesAngles ? enabledAngles[0] : undefined;
+  const finalPrompt = previewAngle ? anglePrompt(previewAngle) : prompt.trim() ? composePrompt(prompt, promptOptions) : '';
+  const promptRecipe = createPromptRecipe(prompt, promptOptions);
+
+  const addToLibrary = (images: ImageResult[]) => {
+    setLibrary(prev => [...images, ...prev]);
+    saveImages(images).catch(e => console.error("Failed to save images to library", e));
+  };
+
+  useEffect(() => {
+    setViewDimensions(null);
+  }, [viewImage?.data]);
+
+  // Load the uploaded source the viewed image descends from, as the root of its version tree
+  useEffect(() => {
+    setViewSourceImage(null);
+    if (!viewImage?.sourceImageId) return;
+    let cancelled = false;
+    getSourceImage(viewImage.sourceImageId)
+      .then(source => { if (!cancelled) setViewSourceImage(source); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [viewImage?.sourceImageId]);
 
   const handleApiKeySelect = async () => {
     try {
@@ -51,27 +302,165 @@ const App: React.FC = () => {
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again after cancelling should reopen the dialog
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setInputImage(reader.result as string);
-        setGeneratedImages([]); // Clear previous generations when new image uploaded
-      };
-      reader.readAsDataURL(file);
+      try {
+        // Detects the real format and converts HEIC/GIF/AVIF to a format the models accept
+        setPendingUpload(await readUploadSource(file));
+        setError(null);
+      } catch (err: any) {
+        setError(err);
+      }
     }
   };
 
-  const toggleZoom = () => {
-    setZoomLevel(prev => prev === 1 ? 2.5 : 1);
+  const handleConfirmUpload = ({ dataUrl }: PreparedUpload) => {
+    setPendingUpload(null);
+    setInputImage(dataUrl);
+    setSourceImageId(null);
+    setActiveRunId(null); // Start a fresh grid; previous runs stay in the library
+    saveSourceImage(dataUrl)
+      .then(setSourceImageId)
+      .catch(e => console.error("Failed to save source image", e));
+  };
+
+  const handleOpenRun = async (run: HistoryRun) => {
+    setActiveRunId(run.id);
+    setShowHistory(false);
+    if (run.sourceImageId) {
+      const source = await getSourceImage(run.sourceImageId).catch(() => null);
+      if (source) {
+        setInputImage(source);
+        setSourceImageId(run.sourceImageId);
+      }
+    }
+  };
+
+  const handleDeleteImages = (ids: string[]) => {
+    const deletedAt = Date.now();
+    setLibrary(prev => prev.map(img => ids.includes(img.id) ? { ...img, deletedAt } : img));
+    setImagesDeleted(ids, true).catch(e => console.error("Failed to move images to trash", e));
+  };
+
+  const handleRestoreImages = (ids: string[]) => {
+    setLibrary(prev => prev.map(img => ids.includes(img.id) ? { ...img, deletedAt: undefined } : img));
+    setImagesDeleted(ids, false).catch(e => console.error("Failed to restore images", e));
+  };
+
+  const handlePurgeImages = (ids: string[]) => {
+    setLibrary(prev => prev.filter(img => !ids.includes(img.id)));
+    purgeImages(ids).catch(e => console.error("Failed to delete images", e));
+  };
+
+  // Stars one candidate as the winner of its run; picking the current winner again clears it
+  const handlePickWinner = (winner: ImageResult) => {
+    const changed = library
+      .filter(img => img.runId === winner.runId && img.candidate && (img.id === winner.id || img.winner))
+      .map(img => ({ ...img, winner: img.id === winner.id ? !winner.winner : false }));
+    setLibrary(prev => prev.map(img => changed.find(c => c.id === img.id) ?? img));
+    saveImages(changed).catch(e => console.error("Failed to save winner", e));
+  };
+
+  // Through the tracked provider, so the text model's calls count towards the spend
+  const handleRephrase = async (blocked: string, reason: string) =>
+    (await provider.rephrase(blocked, reason)).text;
+
+  const handleUsePrompt = (rephrased: string) => {
+    setPrompt(rephrased);
+    setError(null);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Generates one variation per enabled angle of the selected pack. Jobs go through the queue,
+  // and allSettled allows partial success: failed angles stay in the grid as placeholders that
+  // can be retried individually. Throws only if every angle failed.
+  const runAngleSet = async (
+    source: { data: string; id?: string },
+    runId: string,
+    signal: AbortSignal,
+    onJobProgress: (angleId: string) => (progress: JobProgress) => void
+  ): Promise<ImageResult[]> => {
+    const angleRefs: AngleRef[] = enabledAngles.map((angle, index) => ({
+      id: angle.id,
+      name: angle.name,
+      index,
+      prompt: anglePrompt(angle)
+    }));
+
+    // What each angle is asked for; recorded on its image or failure so a rerun repeats it
+    const operations = angleRefs.map((angle): ImageOperation => ({
+      type: 'angle',
+      params: { prompt: angle.prompt, aspectRatio: selectedRatio, references: references.length > 0 ? references : undefined }
+    }));
+
+    const results = await Promise.allSettled(angleRefs.map(async (angle, i): Promise<ImageResult> => {
+      const result = await queue.run(
+        jobSignal => provider.edit({ image: source.data, prompt: angle.prompt, aspectRatio: selectedRatio, references }, jobSignal),
+        { signal, onProgress: onJobProgress(angle.id) }
+      );
+      return {
+        id: crypto.randomUUID(),
+        data: result.data,
+        mimeType: result.mimeType,
+        prompt: `${angle.name}: ${angle.prompt}`,
+        model: provider.models.edit,
+        timestamp: Date.now(),
+        runId,
+        sourceImageId: source.id,
+        angle,
+        aspectRatio: selectedRatio,
+        recipe: promptRecipe,
+        operation: operations[i]
+      };
+    }));
+
+    const failures = results.flatMap((r, i): AngleFailure[] => r.status === 'rejected'
+      ? [{
+          runId,
+          angle: angleRefs[i],
+          error: isAbortError(r.reason) ? "Cancelled" : describeFailure(r.reason),
+          modelText: r.reason?.modelText,
+          sourceImageId: source.id,
+          operation: operations[i]
+        }]
+      : []);
+    setAngleFailures(prev => [...prev, ...failures]);
+
+    const successfulImages = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    if (successfulImages.length === 0) {
+      const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult | undefined;
+      throw rejected?.reason ?? new Error("Failed to generate any variations.");
+    }
+    addToLibrary(successfulImages);
+    return successfulImages;
   };
 
+  // Failure placeholders of earlier runs are dropped when a run starts; those of the batch
+  // sources in `keepRunIds` are still shown in the batch results
+  const clearAngleFailures = (keepRunIds: string[]) =>
+    setAngleFailures(prev => prev.filter(f => keepRunIds.includes(f.runId)));
+
   const handleGenerate = async () => {
     setError(null);
     setIsLoading(true);
+    setJobProgress({});
+    clearAngleFailures(batchItemsRef.current.map(item => item.runId));
+    const runId = crypto.randomUUID();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
     try {
+      const missing = missingVariables(prompt, promptOptions.variables);
+      if (missing.length > 0) {
+        throw new Error(`Fill in the template variables: ${missing.join(', ')}.`);
+      }
+
       if (mode === GenerationMode.GENERATE) {
         if (!hasApiKey) {
           setIsLoading(false);
@@ -82,76 +471,293 @@ const App: React.FC = () => {
           throw new Error("Please enter a prompt description.");
         }
 
-        const base64 = await generateImagePro(prompt, selectedSize, selectedRatio);
-        setGeneratedImages([{
-          id: Date.now().toString(),
-          data: base64,
-          mimeType: 'image/png',
-          prompt,
-          model: 'gemini-3-pro-image-preview',
-          timestamp: Date.now()
-        }]);
+        // Several candidates of the same prompt run in parallel and are compared afterwards
+        const plan = planCandidates(candidateCount, candidateVariation);
+        const jobId = (index: number) => plan.length > 1 ? `candidate-${index}` : 'generate';
+        if (plan.length > 1) {
+          setRunningJobs(plan.map(c => ({ id: jobId(c.index), label: `Candidate ${c.index + 1}` })));
+        }
+
+        const results = await Promise.allSettled(plan.map(async (candidate): Promise<ImageResult> => {
+          const { seed, temperature } = candidate;
+          const generated = await queue.run(
+            jobSignal => provider.generate({ prompt: finalPrompt, size: selectedSize, aspectRatio: selectedRatio, references, seed, temperature }, jobSignal),
+            { signal, onProgress: trackJob(jobId(candidate.index)) }
+          );
+          return {
+            id: crypto.randomUUID(),
+            data: generated.data,
+            mimeType: generated.mimeType,
+            prompt: finalPrompt,
+            model: provider.models.generate,
+            timestamp: Date.now(),
+            runId,
+            aspectRatio: selectedRatio,
+            size: selectedSize,
+            candidate: plan.length > 1 ? candidate : undefined,
+            recipe: promptRecipe,
+            operation: { type: 'generate', params: { prompt: finalPrompt, aspectRatio: selectedRatio, size: selectedSize, seed, temperature } }
+          };
+        }));
+
+        const generated = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        const failed = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+        if (generated.length === 0) throw failed[0];
+
+        addToLibrary(generated);
+        setActiveRunId(runId);
+        if (failed.length > 0) {
+          setError(new Error(`${failed.length} of ${plan.length} candidates failed: ${describeFailure(failed[0])}`));
+        }
 
       } else if (mode === GenerationMode.EDIT_ANGLES) {
         if (!inputImage) {
           throw new Error("Please upload an image first.");
         }
 
-        // Generate 7 variations based on different camera angles
-        const angles = [
-          { name: "Low Angle", promptSuffix: "viewed from a low camera angle, looking up, dramatic perspective" },
-          { name: "High Angle", promptSuffix: "viewed from a high camera angle, looking down, bird's eye view" },
-          { name: "Side Profile", promptSuffix: "viewed from the side profile, cinematic lighting" },
-          { name: "Wide Shot", promptSuffix: "wide angle shot, showing surrounding context, environmental view" },
-          { name: "Close Up", promptSuffix: "extreme close up shot, highly detailed texture, macro photography style" },
-          { name: "Dutch Angle", promptSuffix: "Dutch angle shot, tilted camera horizon, dynamic energy, unease" },
-          { name: "Over the Shoulder", promptSuffix: "over-the-shoulder shot, narrative perspective, depth of field" }
-        ];
-
-        // Execute in parallel with allSettled to allow partial success
-        const promises = angles.map(async (angle) => {
-          const fullPrompt = prompt 
-            ? `${prompt}, ${angle.promptSuffix}`
-            : `Keep the subject but change camera to ${angle.promptSuffix}`;
-            
-          const resultBase64 = await editImageFlash(inputImage, fullPrompt, selectedRatio);
-          return {
-            id: crypto.randomUUID(),
-            data: resultBase64,
-            mimeType: 'image/png',
-            prompt: `${angle.name}: ${fullPrompt}`,
-            model: 'gemini-2.5-flash-image',
-            timestamp: Date.now()
-          } as ImageResult;
-        });
+        if (enabledAngles.length === 0) {
+          throw new Error(`The "${selectedPack.name}" angle pack has no enabled angles.`);
+        }
 
-        const results = await Promise.allSettled(promises);
-        
-        const successfulImages = results
-          .filter((r): r is PromiseFulfilledResult<ImageResult> => r.status === 'fulfilled')
-          .map(r => r.value);
-
-        if (successfulImages.length === 0) {
-            // Check if any rejected reason was due to API key
-            const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
-            if (rejected?.reason?.message?.includes('Requested entity was not found')) {
-                 setHasApiKey(false);
-            }
-            throw new Error(rejected?.reason?.message || "Failed to generate any variations.");
+        setRunningJobs(enabledAngles.map(angle => ({ id: angle.id, label: angle.name })));
+        setActiveRunId(runId);
+        await runAngleSet({ data: inputImage, id: sourceImageId ?? undefined }, runId, signal, trackJob);
+
+      } else if (mode === GenerationMode.INPAINT) {
+        if (!inputImage || !mask) {
+          throw new Error("Upload an image and paint the area to edit.");
         }
+        if (!prompt) {
+          throw new Error("Please describe the edit for the masked area.");
+        }
+
+        const source = await loadImage(inputImage);
+        const aspectRatio = closestAspectRatio(source.naturalWidth, source.naturalHeight);
+        const modelMask = await maskToBlackAndWhite(mask);
+        const edited = await queue.run(
+          jobSignal => provider.inpaint({ image: inputImage, mask: modelMask, prompt: finalPrompt, aspectRatio }, jobSignal),
+          { signal, onProgress: trackJob('generate') }
+        );
+        // Only the masked region of the model output is kept
+        const composite = await compositeWithMask(inputImage, edited.data, mask, featherRadius);
 
-        setGeneratedImages(successfulImages);
+        addToLibrary([{
+          id: crypto.randomUUID(),
+          data: composite,
+          mimeType: 'image/png',
+          prompt: `Inpaint: ${finalPrompt}`,
+          model: `${provider.models.edit} (Inpaint)`,
+          timestamp: Date.now(),
+          runId,
+          sourceImageId: sourceImageId ?? undefined,
+          aspectRatio,
+          recipe: promptRecipe,
+          operation: { type: 'edit', params: { prompt: finalPrompt, mask, feather: featherRadius } }
+        }]);
+        setActiveRunId(runId);
       }
     } catch (err: any) {
-      setError(err.message || "An error occurred during generation");
-      if (err.message?.includes("Requested entity was not found") || err.message?.includes("API key")) {
+      if (isAbortError(err)) {
+        setError(new Error("Generation cancelled."));
+        return;
+      }
+      setError(err);
+      if (hasErrorKind(err, 'auth')) {
         setHasApiKey(false);
       }
     } finally {
+      abortControllerRef.current = null;
+      setRunningJobs([]);
       setIsLoading(false);
     }
   };
 
+  // Reruns a single angle of the active run, replacing its image (the old one goes to the trash)
+  // or its failure placeholder while the rest of the grid stays intact.
+  const handleRerunAngle = async (angle: AngleRef, previous?: ImageResult) => {
+    const runId = activeRunId;
+    if (!runId || rerunningAngleIds.includes(angle.id)) return;
+
+    // The request the angle was made (or attempted) with, so the new image matches its siblings
+    const recorded = previous ?? angleFailures.find(f => f.runId === runId && f.angle.id === angle.id);
+    if (!recorded) return;
+    const params = recorded.operation?.params;
+    const aspectRatio = params?.aspectRatio ?? previous?.aspectRatio ?? selectedRatio;
+    const editPrompt = params?.prompt ?? angle.prompt;
+    const recordedReferences = params?.references;
+    const recordedSourceId = recorded.sourceImageId;
+
+    setError(null);
+    setRerunningAngleIds(prev => [...prev, angle.id]);
+    try {
+      const source = recordedSourceId === undefined ? null
+        : recordedSourceId === sourceImageId ? inputImage
+        : await getSourceImage(recordedSourceId);
+      if (!source) throw new Error("The source image of this run is no longer available.");
+      const result = await queue.run(
+        jobSignal => provider.edit({ image: source, prompt: editPrompt, aspectRatio, references: recordedReferences }, jobSignal),
+        { onProgress: trackJob(angle.id) }
+      );
+      if (previous) handleDeleteImages([previous.id]);
+      addToLibrary([{
+        id: crypto.randomUUID(),
+        data: result.data,
+        mimeType: result.mimeType,
+        prompt: `${angle.name}: ${editPrompt}`,
+        model: provider.models.edit,
+        timestamp: Date.now(),
+        runId,
+        sourceImageId: recordedSourceId,
+        angle,
+        aspectRatio,
+        recipe: previous?.recipe,
+        operation: { type: 'angle', params: { prompt: editPrompt, aspectRatio, references: recordedReferences } }
+      }]);
+      setAngleFailures(prev => prev.filter(f => !(f.runId === runId && f.angle.id === angle.id)));
+    } catch (err: any) {
+      if (previous) {
+        setError(err);
+      } else {
+        setAngleFailures(prev => prev.map(f => f.runId === runId && f.angle.id === angle.id
+          ? { ...f, error: describeFailure(err), modelText: err.modelText }
+          : f));
+      }
+      if (hasErrorKind(err, 'auth')) {
+        setHasApiKey(false);
+      }
+    } finally {
+      setRerunningAngleIds(prev => prev.filter(id => id !== angle.id));
+    }
+  };
+
+  const updateBatchItem = (id: string, changes: Partial<BatchItem>) =>
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  const handleAddBatchFiles = async (files: BatchFile[]) => {
+    const added: BatchItem[] = [];
+    const unreadable: string[] = [];
+    for (const { file, path } of files) {
+      try {
+        // Batch sources are turned upright, scaled and stripped of metadata, but not cropped
+        const { dataUrl } = await prepareUpload(await readUploadSource(file), uploadSettings);
+        const id = await saveSourceImage(dataUrl).catch(e => {
+          console.error("Failed to save source image", e);
+          return undefined;
+        });
+        added.push({
+          id: crypto.randomUUID(),
+          name: path,
+          data: dataUrl,
+          sourceImageId: id,
+          runId: crypto.randomUUID(),
+          status: 'queued',
+          completed: 0,
+          failed: 0,
+          total: enabledAngles.length,
+        });
+      } catch {
+        unreadable.push(path);
+      }
+    }
+    setBatchItems(prev => [...prev, ...added]);
+    setError(unreadable.length > 0 ? new Error(`Skipped files that could not be read: ${unreadable.join(', ')}.`) : null);
+  };
+
+  const handleStartBatch = async () => {
+    if (!hasApiKey) {
+      setHasApiKey(false);
+      return;
+    }
+    const missing = missingVariables(prompt, promptOptions.variables);
+    if (missing.length > 0) {
+      setError(new Error(`Fill in the template variables: ${missing.join(', ')}.`));
+      return;
+    }
+    if (enabledAngles.length === 0) {
+      setError(new Error(`The "${selectedPack.name}" angle pack has no enabled angles.`));
+      return;
+    }
+
+    setError(null);
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    batchGateRef.current = createPauseGate();
+    setIsBatchPaused(false);
+    setIsBatchRunning(true);
+    // Sources that run again start over under a new run id
+    clearAngleFailures(batchItemsRef.current.filter(item => item.status === 'done').map(item => item.runId));
+
+    try {
+      await runBatch(batchItemsRef.current, {
+        signal: controller.signal,
+        gate: batchGateRef.current,
+        jobsPerItem: enabledAngles.length,
+        onUpdate: updateBatchItem,
+        process: async item => {
+          // Finished angles (either way) drive the source's progress bar
+          const countAngle = (progress: JobProgress) => {
+            if (progress.status !== 'done' && progress.status !== 'failed') return;
+            setBatchItems(prev => prev.map(i => i.id === item.id
+              ? { ...i, completed: i.completed + 1, failed: i.failed + (progress.status === 'failed' ? 1 : 0) }
+              : i));
+          };
+          await runAngleSet({ data: item.data, id: item.sourceImageId }, item.runId, controller.signal, () => countAngle);
+        },
+      });
+    } catch (err: any) {
+      setError(err);
+      if (hasErrorKind(err, 'auth')) {
+        setHasApiKey(false);
+      }
+    } finally {
+      batchControllerRef.current = null;
+      setIsBatchRunning(false);
+      setIsBatchPaused(false);
+    }
+  };
+
+  const handlePauseBatch = () => {
+    batchGateRef.current.pause();
+    setIsBatchPaused(true);
+  };
+
+  const handleResumeBatch = () => {
+    batchGateRef.current.resume();
+    setIsBatchPaused(false);
+  };
+
+  const handleExportBatch = () => {
+    const runs = batchRuns
+      .map(({ item, tiles }) => ({
+        name: item.name,
+        images: tiles.flatMap(tile => tile.image ? [tile.image] : []),
+        source: { dataUrl: item.data, id: item.sourceImageId ?? null },
+      }))
+      .filter(run => run.images.length > 0);
+    const url = URL.createObjectURL(buildBatchArchive(runs));
+    downloadDataUrl(url, `grid-batch-${Date.now()}.zip`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleDownloadAll = async () => {
+    // The source the run was made from, which need not be the one loaded now; left out if it is gone
+    const runSourceId = runImages.find(img => img.sourceImageId)?.sourceImageId;
+    const source = !runSourceId ? null
+      : runSourceId === sourceImageId ? inputImage
+      : await getSourceImage(runSourceId).catch(() => null);
+    const archive = buildRunArchive(runImages, source ? { dataUrl: source, id: runSourceId } : undefined);
+    const url = URL.createObjectURL(archive);
+    downloadDataUrl(url, `grid-run-${activeRunId ?? Date.now()}.zip`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Older results have no recorded ratio, so fall back to measuring the image
+  const aspectRatioOf = async (image: ImageResult): Promise<AspectRatio> => {
+    if (image.aspectRatio) return image.aspectRatio;
+    const loaded = await loadImage(image.data);
+    return closestAspectRatio(loaded.naturalWidth, loaded.naturalHeight);
+  };
+
   const handleUpscale = async (imageToUpscale: ImageResult) => {
     if (!hasApiKey) {
       setHasApiKey(false);
@@ -160,23 +766,33 @@ const App: React.FC = () => {
 
     setIsUpscaling(true);
     try {
-      const upscaledBase64 = await upscaleImage(imageToUpscale.data, imageToUpscale.prompt, ImageSize.SIZE_4K);
+      const aspectRatio = await aspectRatioOf(imageToUpscale);
+      const upscaled = await queue.run(
+        jobSignal => provider.upscale({ image: imageToUpscale.data, prompt: imageToUpscale.prompt, size: ImageSize.SIZE_4K, aspectRatio }, jobSignal)
+      );
       
       const upscaledResult: ImageResult = {
         id: Date.now().toString(),
-        data: upscaledBase64,
-        mimeType: 'image/png',
+        data: upscaled.data,
+        mimeType: upscaled.mimeType,
         prompt: imageToUpscale.prompt,
-        model: 'gemini-3-pro-image-preview (Upscaled)',
-        timestamp: Date.now()
+        model: `${provider.models.upscale} (Upscaled)`,
+        timestamp: Date.now(),
+        runId: imageToUpscale.runId,
+        sourceImageId: imageToUpscale.sourceImageId,
+        aspectRatio,
+        size: ImageSize.SIZE_4K,
+        recipe: imageToUpscale.recipe,
+        parentIds: [imageToUpscale.id],
+        operation: { type: 'upscale', params: { prompt: imageToUpscale.prompt, size: ImageSize.SIZE_4K, aspectRatio } }
       };
 
       setViewImage(upscaledResult);
-      setGeneratedImages(prev => [upscaledResult, ...prev]);
+      addToLibrary([upscaledResult]);
 
     } catch (err: any) {
-      setError(err.message || "Failed to upscale");
-      if (err.message?.includes("Requested entity was not found")) {
+      setError(err);
+      if (hasErrorKind(err, 'auth')) {
          setHasApiKey(false);
       }
     } finally {
@@ -184,10 +800,257 @@ const App: React.FC = () => {
     }
   };
 
+  // Sends the next instruction of the viewed image's refinement conversation. The result is a
+  // child of the viewed image, so sending from an earlier turn starts a new branch.
+  const handleRefine = async (instruction: string) => {
+    if (!viewImage) return;
+    if (!hasApiKey) {
+      setHasApiKey(false);
+      return;
+    }
+
+    setIsRefining(true);
+    setError(null);
+    try {
+      const { base, turns } = getRefinementThread(viewImage, library);
+      if (!base) throw new Error("The image this conversation started from is no longer in the library.");
+      const aspectRatio = await aspectRatioOf(base);
+      const result = await queue.run(
+        jobSignal => provider.refine({ image: base.data, turns: toRefineTurns(turns), prompt: instruction, aspectRatio }, jobSignal)
+      );
+
+      const refined: ImageResult = {
+        id: crypto.randomUUID(),
+        data: result.data,
+        mimeType: result.mimeType,
+        prompt: instruction,
+        model: provider.models.edit,
+        timestamp: Date.now(),
+        runId: viewImage.runId,
+        sourceImageId: viewImage.sourceImageId,
+        aspectRatio,
+        parentIds: [viewImage.id],
+        operation: { type: 'refine', params: { prompt: instruction, aspectRatio } }
+      };
+      addToLibrary([refined]);
+      setViewImage(refined);
+    } catch (err: any) {
+      setError(err);
+      if (hasErrorKind(err, 'auth')) {
+        setHasApiKey(false);
+      }
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  // Re-runs the operation that produced `image` with edited parameters. The result keeps the
+  // same parents, so it shows up as a sibling version in the tree. Reference images are not
+  // stored with results, so generate/angle re-runs go out without them.
+  const handleRerunOperation = async (image: ImageResult, params: OperationParams) => {
+    const operation = image.operation;
+    if (!operation) return;
+
+    setIsRerunning(true);
+    setError(null);
+    try {
+      const parent = library.find(img => img.id === image.parentIds?.[0]);
+      const source = image.sourceImageId ? await getSourceImage(image.sourceImageId) : null;
+      let result: GeneratedImage;
+      let prompt = params.prompt;
+
+      if (operation.type === 'generate') {
+        result = await queue.run(jobSignal => provider.generate({ prompt: params.prompt, size: params.size, aspectRatio: params.aspectRatio, seed: params.seed, temperature: params.temperature }, jobSignal));
+      } else if (operation.type === 'angle') {
+        if (!source) throw new Error("The source image for this variation is no longer available.");
+        result = await queue.run(jobSignal => provider.edit({ image: source, prompt: params.prompt, aspectRatio: params.aspectRatio }, jobSignal));
+        prompt = image.angle ? `${image.angle.name}: ${params.prompt}` : params.prompt;
+      } else if (operation.type === 'upscale') {
+        if (!parent) throw new Error("The original of this upscale is no longer in the library.");
+        result = await queue.run(jobSignal => provider.upscale({ image: parent.data, prompt: params.prompt, size: params.size, aspectRatio: params.aspectRatio ?? image.aspectRatio }, jobSignal));
+      } else if (operation.type === 'refine') {
+        // Same conversation up to the parent, with the edited instruction as the last turn
+        const { base, turns } = parent ? getRefinementThread(parent, library) : { base: undefined, turns: [] };
+        if (!base) throw new Error("The earlier turns of this conversation are no longer in the library.");
+        result = await queue.run(jobSignal => provider.refine({ image: base.data, turns: toRefineTurns(turns), prompt: params.prompt, aspectRatio: params.aspectRatio ?? image.aspectRatio }, jobSignal));
+      } else {
+        if (!source || !params.mask) throw new Error("The source image or mask for this edit is no longer available.");
+        const modelMask = await maskToBlackAndWhite(params.mask);
+        const edited = await queue.run(jobSignal => provider.inpaint({ image: source, mask: modelMask, prompt: params.prompt, aspectRatio: image.aspectRatio }, jobSignal));
+        result = { data: await compositeWithMask(source, edited.data, params.mask, params.feather ?? 0), mimeType: 'image/png' };
+        prompt = `Inpaint: ${params.prompt}`;
+      }
+
+      const rerun: ImageResult = {
+        ...image,
+        id: crypto.randomUUID(),
+        data: result.data,
+        mimeType: result.mimeType,
+        prompt,
+        timestamp: Date.now(),
+        deletedAt: undefined,
+        candidate: undefined,
+        winner: undefined,
+        // An edited prompt no longer matches the template it came from
+        recipe: params.prompt === operation.params.prompt ? image.recipe : undefined,
+        aspectRatio: params.aspectRatio ?? image.aspectRatio,
+        size: params.size ?? image.size,
+        operation: { type: operation.type, params }
+      };
+      addToLibrary([rerun]);
+      setViewImage(rerun);
+    } catch (err: any) {
+      setError(err);
+      if (hasErrorKind(err, 'auth')) {
+        setHasApiKey(false);
+      }
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  // The cheat sheet opens from anywhere, except while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isTypingTarget(e.target) && matchShortcut(e, 'global') === 'help') {
+        e.preventDefault();
+        setShowShortcuts(show => !show);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const closeViewer = () => {
+    const lastViewedId = viewImage?.id;
+    setViewImage(null);
+    // Land on the tile of the last image viewed, so arrow keys carry on from there
+    requestAnimationFrame(() => document.querySelector<HTMLElement>(`[data-image-id="${lastViewedId}"]`)?.focus());
+  };
+
+  const showGalleryImage = (index: number) => {
+    if (index >= 0 && index !== viewIndex) setViewImage(galleryImages[index]);
+  };
+
+  const handleViewerKeyDown = (e: React.KeyboardEvent) => {
+    if (!viewImage || isTypingTarget(e.target)) return;
+    const action = matchShortcut(e, 'viewer');
+    if (!action) return;
+    e.preventDefault();
+    switch (action) {
+      case 'next':
+      case 'previous':
+      case 'first':
+      case 'last':
+        if (viewIndex >= 0) showGalleryImage(navigateIndex(viewIndex, action, galleryImages.length));
+        break;
+      case 'upscale':
+        if (!isUpscaling && !viewImage.model.includes('Upscaled')) {
+          withinBudget(callCost(provider.models.upscale, 'upscale', ImageSize.SIZE_4K), () => handleUpscale(viewImage));
+        }
+        break;
+      case 'download':
+        downloadDataUrl(viewImage.data, imageFilename(viewImage.id, viewImage.mimeType));
+        break;
+      case 'zoomIn': inspectorRef.current?.zoomIn(); break;
+      case 'zoomOut': inspectorRef.current?.zoomOut(); break;
+      case 'zoomActual': inspectorRef.current?.zoomActual(); break;
+      case 'zoomFit': inspectorRef.current?.fit(); break;
+      case 'compare': inspectorRef.current?.toggleCompare(); break;
+    }
+  };
+
+  // Arrow keys move focus between the tiles of the results grid
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const action = matchShortcut(e, 'grid');
+    if (!action || action === 'open') return;
+    const tiles: HTMLElement[] = Array.from((e.currentTarget as HTMLElement).querySelectorAll<HTMLElement>('[data-image-id]'));
+    const index = tiles.indexOf(document.activeElement as HTMLElement);
+    if (index < 0) return;
+    e.preventDefault();
+    tiles[navigateIndex(index, action, tiles.length)].focus();
+  };
+
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-indigo-500 selection:text-white">
       {!hasApiKey && <ApiKeyModal onSelect={handleApiKeySelect} />}
 
+      {showAngleManager && (
+        <AnglePresetManager
+          packs={anglePacks}
+          selectedPackId={selectedPack.id}
+          onChange={setAnglePacks}
+          onSelect={setSelectedPackId}
+          onClose={() => setShowAngleManager(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsageDashboard
+          entries={usageLedger}
+          prices={usagePrices}
+          budget={budget}
+          sessionStart={sessionStart}
+          onPricesChange={setUsagePrices}
+          onBudgetChange={setBudget}
+          onNewSession={() => {
+            const now = Date.now();
+            saveSessionStart(now);
+            setSessionStart(now);
+          }}
+          onClear={() => setUsageLedger([])}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {budgetWarning && (
+        <BudgetWarning
+          message={budgetWarning.message}
+          onContinue={() => {
+            setBudgetWarning(null);
+            budgetWarning.run();
+          }}
+          onCancel={() => setBudgetWarning(null)}
+        />
+      )}
+
+      {pendingUpload && (
+        <UploadDialog
+          source={pendingUpload}
+          aspectRatio={selectedRatio}
+          maxDimension={uploadSettings.maxDimension}
+          onMaxDimensionChange={(maxDimension) => setUploadSettings({ maxDimension })}
+          onConfirm={handleConfirmUpload}
+          onCancel={() => setPendingUpload(null)}
+        />
+      )}
+
+      {showContactSheet && (
+        <ContactSheetDialog
+          images={runImages}
+          sourceImage={runImages.some(img => img.sourceImageId) ? inputImage : null}
+          onClose={() => setShowContactSheet(false)}
+        />
+      )}
+
+      {showTurnaround && (
+        <TurnaroundDialog images={angleImages} onClose={() => setShowTurnaround(false)} />
+      )}
+
+      {showShortcuts && <ShortcutSheet onClose={() => setShowShortcuts(false)} />}
+
+      {showHistory && (
+        <HistoryPanel
+          images={library}
+          activeRunId={activeRunId}
+          onOpenRun={handleOpenRun}
+          onDelete={handleDeleteImages}
+          onRestore={handleRestoreImages}
+          onPurge={handlePurgeImages}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Header */}
       <header className="border-b border-gray-800 bg-gray-900/50 backdrop-blur sticky top-0 z-40">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -216,6 +1079,47 @@ const App: React.FC = () => {
               <Wand2 size={16} className="mr-2" />
               Generate New
             </Button>
+            <Button 
+              variant={mode === GenerationMode.INPAINT ? 'primary' : 'ghost'} 
+              onClick={() => setMode(GenerationMode.INPAINT)}
+              size="sm"
+            >
+              <Brush size={16} className="mr-2" />
+              Inpaint
+            </Button>
+            <Button 
+              variant={mode === GenerationMode.BATCH ? 'primary' : 'ghost'} 
+              onClick={() => setMode(GenerationMode.BATCH)}
+              size="sm"
+            >
+              <Layers size={16} className="mr-2" />
+              Batch
+            </Button>
+            <Button 
+              variant="ghost" 
+              onClick={() => setShowUsage(true)}
+              size="sm"
+            >
+              <Wallet size={16} className="mr-2" />
+              Usage
+            </Button>
+            <Button 
+              variant="ghost" 
+              onClick={() => setShowHistory(true)}
+              size="sm"
+            >
+              <History size={16} className="mr-2" />
+              History
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setShowShortcuts(true)}
+              size="sm"
+              aria-label="Keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard size={16} />
+            </Button>
           </div>
         </div>
       </header>
@@ -229,13 +1133,13 @@ const App: React.FC = () => {
           <div className="lg:col-span-1 space-y-6">
             <div className="bg-gray-900/50 rounded-xl p-6 border border-gray-800">
               
-              {mode === GenerationMode.EDIT_ANGLES && (
+              {(mode === GenerationMode.EDIT_ANGLES || mode === GenerationMode.INPAINT) && (
                 <div className="mb-6">
                   <label className="block text-sm font-medium text-gray-400 mb-2">Source Image</label>
                   <div className="relative group">
                     <input 
                       type="file" 
-                      accept="image/*" 
+                      accept="image/*,.heic,.heif" 
                       onChange={handleImageUpload}
                       className="hidden" 
                       id="image-upload"
@@ -260,119 +1164,279 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {mode === GenerationMode.BATCH && (
+                <BatchPanel
+                  items={batchItems}
+                  isRunning={isBatchRunning}
+                  isPaused={isBatchPaused}
+                  canStart={enabledAngles.length > 0}
+                  onAddFiles={handleAddBatchFiles}
+                  onRemove={(id) => setBatchItems(prev => prev.filter(item => item.id !== id))}
+                  onClear={() => setBatchItems([])}
+                  onStart={() => withinBudget(runEstimate, handleStartBatch)}
+                  onPause={handlePauseBatch}
+                  onResume={handleResumeBatch}
+                  onCancel={() => batchControllerRef.current?.abort()}
+                />
+              )}
+
+              {usesAngles && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Angle Preset</label>
+                  <div className="flex gap-2">
+                    <select 
+                      value={selectedPack.id} 
+                      onChange={(e) => setSelectedPackId(e.target.value)}
+                      className="flex-1 bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {anglePacks.map(p => (
+                        <option key={p.id} value={p.id}>
+                          {p.name} ({p.angles.filter(a => a.enabled).length})
+                        </option>
+                      ))}
+                    </select>
+                    <Button variant="secondary" onClick={() => setShowAngleManager(true)} title="Manage angle presets">
+                      <SlidersHorizontal size={16} />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {(mode === GenerationMode.GENERATE || usesAngles) && (
+                <ReferenceTray references={references} onChange={setReferences} disabled={isLoading || isBatchRunning} />
+              )}
+
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
-                    {mode === GenerationMode.GENERATE ? "Image Prompt" : "Editing Instructions (Optional)"}
+                    {mode === GenerationMode.GENERATE ? "Image Prompt" : mode === GenerationMode.INPAINT ? "Edit for Masked Area" : "Editing Instructions (Optional)"}
                   </label>
                   <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                     placeholder={mode === GenerationMode.GENERATE 
                       ? "Describe the image you want to create..." 
-                      : "E.g., 'Make it cyberpunk style' (Angles will be applied automatically)"}
+                      : mode === GenerationMode.INPAINT
+                        ? "E.g., 'Replace the background with a sunset beach'"
+                        : "E.g., 'Make it cyberpunk style' (Angles will be applied automatically)"}
                     className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-sm text-gray-100 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent min-h-[100px] resize-none"
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-400 mb-2">Aspect Ratio</label>
-                    <select 
-                      value={selectedRatio} 
-                      onChange={(e) => setSelectedRatio(e.target.value as AspectRatio)}
-                      className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
-                    >
-                      <option value="1:1">Square (1:1)</option>
-                      <option value="16:9">Landscape (16:9)</option>
-                      <option value="9:16">Portrait (9:16)</option>
-                      <option value="4:3">Standard (4:3)</option>
-                      <option value="3:4">Vertical (3:4)</option>
-                    </select>
+                <PromptComposer
+                  prompt={prompt}
+                  onPromptChange={setPrompt}
+                  options={promptOptions}
+                  onOptionsChange={setPromptOptions}
+                  templates={promptTemplates}
+                  onTemplatesChange={setPromptTemplates}
+                  preview={finalPrompt}
+                  previewLabel={previewAngle?.name}
+                />
+
+                {mode !== GenerationMode.INPAINT && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">Aspect Ratio</label>
+                      <select 
+                        value={selectedRatio} 
+                        onChange={(e) => setSelectedRatio(e.target.value as AspectRatio)}
+                        className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {ASPECT_RATIOS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </div>
+
+                    {mode === GenerationMode.GENERATE && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-400 mb-2">Size (Quality)</label>
+                        <select 
+                          value={selectedSize} 
+                          onChange={(e) => setSelectedSize(e.target.value as ImageSize)}
+                          className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value={ImageSize.SIZE_1K}>Standard (1K)</option>
+                          <option value={ImageSize.SIZE_2K}>High (2K)</option>
+                          <option value={ImageSize.SIZE_4K}>Ultra (4K)</option>
+                        </select>
+                      </div>
+                    )}
                   </div>
+                )}
 
-                  {mode === GenerationMode.GENERATE && (
+                {mode === GenerationMode.GENERATE && (
+                  <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="block text-sm font-medium text-gray-400 mb-2">Size (Quality)</label>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">Candidates</label>
                       <select 
-                        value={selectedSize} 
-                        onChange={(e) => setSelectedSize(e.target.value as ImageSize)}
+                        value={candidateCount} 
+                        onChange={(e) => setCandidateCount(Number(e.target.value))}
+                        disabled={isLoading}
                         className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
                       >
-                        <option value={ImageSize.SIZE_1K}>Standard (1K)</option>
-                        <option value={ImageSize.SIZE_2K}>High (2K)</option>
-                        <option value={ImageSize.SIZE_4K}>Ultra (4K)</option>
+                        {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                          <option key={n} value={n}>{n} image{n !== 1 ? 's' : ''}</option>
+                        ))}
                       </select>
                     </div>
-                  )}
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">Variation</label>
+                      <select 
+                        value={candidateVariation} 
+                        onChange={(e) => setCandidateVariation(e.target.value as CandidateVariation)}
+                        disabled={isLoading}
+                        className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="seed">Seed</option>
+                        <option value="seed-temperature">Seed + temperature</option>
+                        <option value="none">None</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
 
-                <Button 
-                  onClick={handleGenerate} 
-                  disabled={isLoading || (mode === GenerationMode.EDIT_ANGLES && !inputImage) || (mode === GenerationMode.GENERATE && !prompt)}
-                  isLoading={isLoading}
-                  className="w-full mt-4"
-                  size="lg"
-                >
-                  {mode === GenerationMode.GENERATE ? 'Generate Image' : 'Generate Variations'}
-                </Button>
-                
-                {error && (
-                  <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm">
-                    {error}
+                {usesAngles && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Parallel Requests</label>
+                    <select 
+                      value={maxConcurrency} 
+                      onChange={(e) => setMaxConcurrency(Number(e.target.value))}
+                      disabled={isLoading || isBatchRunning}
+                      className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {[1, 2, 3, 4, 5, 6, 7].map(n => (
+                        <option key={n} value={n}>{n} at a time</option>
+                      ))}
+                    </select>
                   </div>
                 )}
+
+                {mode !== GenerationMode.BATCH && (
+                  <Button 
+                    onClick={() => withinBudget(runEstimate, handleGenerate)} 
+                    disabled={isLoading || (mode === GenerationMode.EDIT_ANGLES && (!inputImage || enabledAngles.length === 0)) || (mode === GenerationMode.GENERATE && !prompt) || (mode === GenerationMode.INPAINT && (!inputImage || !mask || !prompt))}
+                    isLoading={isLoading}
+                    className="w-full mt-4"
+                    size="lg"
+                  >
+                    {mode === GenerationMode.GENERATE ? 'Generate Image' : mode === GenerationMode.INPAINT ? 'Apply Edit' : 'Generate Variations'}
+                  </Button>
+                )}
+
+                {runEstimate > 0 && (
+                  <p className="text-xs text-gray-500 text-center">
+                    Estimated {formatCost(runEstimate)}
+                    {budget.limit !== null && ` · ${formatCost(sessionSpend)} of ${formatCost(budget.limit)} used this session`}
+                  </p>
+                )}
+
+                {isLoading && (
+                  <Button onClick={handleCancel} variant="danger" className="w-full">
+                    <Square size={16} className="mr-2" />
+                    Cancel
+                  </Button>
+                )}
+                
+                {error && <ErrorNotice error={error} onRetry={() => withinBudget(runEstimate, mode === GenerationMode.BATCH ? handleStartBatch : handleGenerate)} onSelectKey={handleApiKeySelect} prompt={prompt} onRephrase={handleRephrase} onUsePrompt={handleUsePrompt} />}
               </div>
             </div>
           </div>
 
           {/* Right Panel: Results Grid */}
           <div className="lg:col-span-2">
-             <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-semibold text-white">
-                  {generatedImages.length > 0 ? "Results" : "Preview Area"}
-                </h2>
-                {generatedImages.length > 0 && (
-                   <span className="text-sm text-gray-400">
-                     {generatedImages.length} image{generatedImages.length !== 1 ? 's' : ''} generated
-                   </span>
-                )}
-             </div>
-
-             {isLoading ? (
-               <div className="h-96 flex flex-col items-center justify-center bg-gray-900/30 border border-gray-800 rounded-xl border-dashed">
-                 <Spinner />
-                 <p className="text-gray-400 mt-4 animate-pulse">
-                   {mode === GenerationMode.GENERATE ? "Creating your masterpiece..." : "Generating 7 angle variations..."}
-                 </p>
-               </div>
-             ) : generatedImages.length > 0 ? (
-               <div className={`grid gap-4 ${generatedImages.length === 1 ? 'grid-cols-1' : 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4'}`}>
-                 {generatedImages.map((img) => (
-                   <div 
-                    key={img.id} 
-                    className="group relative aspect-square bg-gray-900 rounded-xl overflow-hidden border border-gray-800 hover:border-indigo-500 transition-all cursor-pointer shadow-lg"
-                    onClick={() => setViewImage(img)}
-                   >
-                     <img src={img.data} alt={img.prompt} className="w-full h-full object-cover" />
-                     <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
-                        <p className="text-white text-sm line-clamp-2 mb-2">{img.prompt}</p>
-                        <div className="flex items-center gap-2">
-                           <span className="text-xs bg-indigo-600/80 text-white px-2 py-1 rounded">
-                              {img.model.includes('flash') ? 'Flash' : 'Pro'}
-                           </span>
-                           <Maximize2 size={14} className="text-white ml-auto" />
-                        </div>
-                     </div>
-                   </div>
-                 ))}
+             {mode === GenerationMode.INPAINT && inputImage && (
+               <div className="mb-8 bg-gray-900/50 rounded-xl p-6 border border-gray-800">
+                 <h2 className="text-xl font-semibold text-white mb-4">Mask</h2>
+                 <MaskEditor
+                   image={inputImage}
+                   feather={featherRadius}
+                   onFeatherChange={setFeatherRadius}
+                   onMaskChange={setMask}
+                 />
                </div>
+             )}
+
+             {mode === GenerationMode.BATCH ? (
+               <BatchResults runs={batchRuns} onView={setViewImage} onExport={handleExportBatch} />
              ) : (
-               <div className="h-96 flex flex-col items-center justify-center bg-gray-900/30 border border-gray-800 rounded-xl border-dashed text-gray-500">
-                 <Image size={48} className="mb-4 opacity-50" />
-                 <p>No images generated yet.</p>
-                 <p className="text-sm">Upload a sample or enter a prompt to begin.</p>
-               </div>
+               <>
+                 <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-semibold text-white">
+                      {generatedImages.length > 0 ? "Results" : "Preview Area"}
+                    </h2>
+                    {generatedImages.length > 0 && (
+                       <div className="flex flex-wrap items-center justify-end gap-3">
+                         <span className="text-sm text-gray-400">
+                           {generatedImages.length} image{generatedImages.length !== 1 ? 's' : ''} generated
+                         </span>
+                         <Button variant="secondary" size="sm" onClick={handleDownloadAll} disabled={isLoading}>
+                           <Archive size={16} className="mr-2" />
+                           Download all
+                         </Button>
+                         <Button variant="secondary" size="sm" onClick={() => setShowContactSheet(true)} disabled={isLoading}>
+                           <LayoutGrid size={16} className="mr-2" />
+                           Export contact sheet
+                         </Button>
+                         {angleImages.length >= 2 && (
+                           <Button variant="secondary" size="sm" onClick={() => setShowTurnaround(true)} disabled={isLoading}>
+                             <Film size={16} className="mr-2" />
+                             Turnaround
+                           </Button>
+                         )}
+                       </div>
+                    )}
+                 </div>
+
+                 {isLoading && runningJobs.length > 0 ? (
+                   <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-4" role="list" aria-label="Running jobs">
+                     {runningJobs.map(job => (
+                       <JobStatusTile key={job.id} label={job.label} progress={jobProgress[job.id]} aspectRatio={selectedRatio} />
+                     ))}
+                   </div>
+                 ) : isLoading ? (
+                   <div className="h-96 flex flex-col items-center justify-center bg-gray-900/30 border border-gray-800 rounded-xl border-dashed">
+                     <Spinner />
+                     <p className="text-gray-400 mt-4 animate-pulse">
+                       {jobProgress.generate?.status === 'retrying'
+                         ? `Busy, retrying (attempt ${jobProgress.generate.attempt + 1})...`
+                         : mode === GenerationMode.GENERATE ? "Creating your masterpiece..."
+                         : mode === GenerationMode.INPAINT ? "Editing the masked area..." : `Generating ${enabledAngles.length} angle variation${enabledAngles.length !== 1 ? 's' : ''}...`}
+                     </p>
+                   </div>
+                 ) : gridTiles.length > 0 ? (
+                   <div className="space-y-6">
+                     {candidateImages.length > 1 && (
+                       <CandidateComparison images={candidateImages} onPickWinner={handlePickWinner} onView={setViewImage} />
+                     )}
+                     {listedTiles.length > 0 && (
+                       // Justified rows: tiles keep their own ratio and each row shares one height
+                       <div className="flex flex-wrap gap-4" role="list" aria-label="Results" onKeyDown={handleGridKeyDown}>
+                         {listedTiles.map(({ key, image, angle, error, modelText }) => (
+                           <ResultTile
+                             key={key}
+                             image={image}
+                             angle={angle}
+                             error={error}
+                             modelText={modelText}
+                             progress={angle && rerunningAngleIds.includes(angle.id) ? jobProgress[angle.id] : undefined}
+                             onView={setViewImage}
+                             onRegenerate={angle ? () => withinBudget(callCost(provider.models.edit, 'edit'), () => handleRerunAngle(angle, image)) : undefined}
+                             rowHeight={listedTiles.length === 1 ? 480 : undefined}
+                           />
+                         ))}
+                         {/* Soaks up the free space of the last row so its tiles are not stretched */}
+                         <div className="flex-grow-[1000]" aria-hidden="true" />
+                       </div>
+                     )}
+                   </div>
+                 ) : (
+                   <div className="h-96 flex flex-col items-center justify-center bg-gray-900/30 border border-gray-800 rounded-xl border-dashed text-gray-500">
+                     <Image size={48} className="mb-4 opacity-50" />
+                     <p>No images generated yet.</p>
+                     <p className="text-sm">Upload a sample or enter a prompt to begin.</p>
+                   </div>
+                 )}
+               </>
              )}
           </div>
         </div>
@@ -380,58 +1444,105 @@ const App: React.FC = () => {
 
       {/* Image Viewer / Upscale Modal */}
       {viewImage && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-sm p-4">
+        <ModalDialog
+          label="Image viewer"
+          onClose={closeViewer}
+          onKeyDown={handleViewerKeyDown}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-sm p-4"
+        >
           <button 
-            onClick={() => setViewImage(null)}
+            onClick={closeViewer}
             className="absolute top-4 right-4 text-gray-400 hover:text-white p-2 z-50 bg-black/50 rounded-full"
+            aria-label="Close viewer"
           >
             <X size={24} />
           </button>
 
+          {viewIndex >= 0 && galleryImages.length > 1 && (
+            <div className="absolute top-4 left-4 z-50 flex items-center gap-1 bg-black/50 rounded-full px-1 text-sm text-gray-300">
+              <button onClick={() => showGalleryImage(viewIndex - 1)} disabled={viewIndex === 0} className="p-2 hover:text-white disabled:opacity-30" aria-label="Previous image">
+                <ChevronLeft size={20} />
+              </button>
+              <span className="tabular-nums" aria-live="polite">{viewIndex + 1} / {galleryImages.length}</span>
+              <button onClick={() => showGalleryImage(viewIndex + 1)} disabled={viewIndex === galleryImages.length - 1} className="p-2 hover:text-white disabled:opacity-30" aria-label="Next image">
+                <ChevronRight size={20} />
+              </button>
+            </div>
+          )}
+
           <div className="max-w-6xl w-full h-[90vh] flex flex-col md:flex-row gap-6 p-2">
             
-            {/* Image Viewer with Zoom */}
-            <div 
-              className="flex-1 flex items-center justify-center bg-gray-900/50 rounded-xl overflow-hidden border border-gray-800 relative group"
-              onClick={toggleZoom}
-              style={{ cursor: zoomLevel > 1 ? 'zoom-out' : 'zoom-in' }}
-            >
-               <img 
-                 src={viewImage.data} 
-                 alt={viewImage.prompt} 
-                 className="max-w-none transition-transform duration-300 ease-out"
-                 style={{ 
-                   transform: `scale(${zoomLevel})`,
-                   maxHeight: '100%',
-                   maxWidth: '100%',
-                   objectFit: 'contain' 
-                 }}
+            {/* Pan-and-zoom inspector, compared against the parent (or uploaded source) */}
+            <div className="flex-1 min-h-[50vh] bg-gray-900/50 rounded-xl overflow-hidden border border-gray-800">
+               <ImageInspector
+                 src={viewImage.data}
+                 alt={viewImage.prompt}
+                 compareSrc={library.find(img => img.id === viewImage.parentIds?.[0])?.data ?? viewSourceImage}
+                 onLoad={setViewDimensions}
+                 controlsRef={inspectorRef}
                />
-               <div className="absolute bottom-4 right-4 bg-black/70 text-white px-3 py-1.5 rounded-full text-sm opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-2 pointer-events-none">
-                 <ZoomIn size={16} />
-                 {zoomLevel === 1 ? "Click to Zoom" : "Click to Reset"}
-               </div>
             </div>
             
             {/* Sidebar Controls */}
-            <div className="w-full md:w-80 flex flex-col gap-4 bg-gray-900 p-6 rounded-xl border border-gray-800 h-fit overflow-y-auto">
+            <div className="w-full md:w-80 flex flex-col gap-4 bg-gray-900 p-6 rounded-xl border border-gray-800 h-fit max-h-full overflow-y-auto">
                <div>
                   <h3 className="text-lg font-bold text-white mb-2">Image Details</h3>
                   <p className="text-sm text-gray-400 mb-4 line-clamp-6">{viewImage.prompt}</p>
+                  {viewImage.recipe && (
+                    <div className="text-xs text-gray-500 mb-4 space-y-1">
+                      <p>Template: <span className="text-gray-300 font-mono">{viewImage.recipe.template}</span></p>
+                      {Object.entries(viewImage.recipe.variables).map(([name, value]) => (
+                        <p key={name}>{name}: <span className="text-gray-300">{value}</span></p>
+                      ))}
+                      {viewImage.recipe.styleId !== DEFAULT_PROMPT_OPTIONS.styleId && (
+                        <p>Style: <span className="text-gray-300">{findStylePreset(viewImage.recipe.styleId).name}</span></p>
+                      )}
+                      {viewImage.recipe.negativePrompt && (
+                        <p>Avoid: <span className="text-gray-300">{viewImage.recipe.negativePrompt}</span></p>
+                      )}
+                    </div>
+                  )}
                   
                   <div className="flex flex-wrap gap-2 mb-6">
                     <span className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 border border-gray-700">
                       {viewImage.model}
                     </span>
                     <span className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 border border-gray-700">
-                      PNG
+                      {formatLabel(viewImage.mimeType)}
+                    </span>
+                    {viewDimensions && (
+                      <span className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 border border-gray-700">
+                        {viewDimensions.width} × {viewDimensions.height} px
+                      </span>
+                    )}
+                    <span className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 border border-gray-700">
+                      {formatBytes(dataUrlByteSize(viewImage.data))}
                     </span>
                   </div>
                </div>
 
+               <RefinementChat
+                 image={viewImage}
+                 library={library}
+                 isRunning={isRefining}
+                 onSelect={setViewImage}
+                 onSend={(instruction) => withinBudget(callCost(provider.models.edit, 'refine'), () => handleRefine(instruction))}
+               />
+
+               <LineagePanel
+                 image={viewImage}
+                 library={library}
+                 sourceImage={viewSourceImage}
+                 isRunning={isRerunning}
+                 onSelect={setViewImage}
+                 onRerun={(image, params) => image.operation && withinBudget(rerunEstimate(image.operation.type, params), () => handleRerunOperation(image, params))}
+               />
+
+               {error && <ErrorNotice error={error} onSelectKey={handleApiKeySelect} />}
+
                <div className="flex flex-col gap-3 mt-auto">
                  <Button 
-                   onClick={(e) => { e.stopPropagation(); handleUpscale(viewImage); }}
+                   onClick={(e) => { e.stopPropagation(); withinBudget(callCost(provider.models.upscale, 'upscale', ImageSize.SIZE_4K), () => handleUpscale(viewImage)); }}
                    disabled={isUpscaling || viewImage.model.includes('Upscaled')}
                    variant="secondary"
                    isLoading={isUpscaling}
@@ -444,19 +1555,11 @@ const App: React.FC = () => {
                    {viewImage.model.includes('Upscaled') && <span className="text-xs bg-green-900 text-green-200 px-1.5 py-0.5 rounded">Done</span>}
                  </Button>
 
-                 <a 
-                   href={viewImage.data} 
-                   download={`gemini-image-${viewImage.id}.png`}
-                   className="flex items-center justify-center w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium"
-                   onClick={(e) => e.stopPropagation()}
-                 >
-                   <Download size={18} className="mr-2" />
-                   Download Image
-                 </a>
+                 <DownloadMenu image={viewImage} />
                </div>
             </div>
           </div>
-        </div>
+        </ModalDialog>
       )}
     </div>
   );
@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, Copy, Upload, Download } from 'lucide-react';
+import { Button } from './Button';
+import { AnglePack, CameraAngle } from '../types';
+import { createAngle, createPack, parseAnglePacks, exportAnglePack, DEFAULT_ANGLE_PACK } from '../services/anglePresets';
+
+interface AnglePresetManagerProps {
+  packs: AnglePack[];
+  selectedPackId: string;
+  onChange: (packs: AnglePack[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+export const AnglePresetManager: React.FC<AnglePresetManagerProps> = ({
+  packs,
+  selectedPackId,
+  onChange,
+  onSelect,
+  onClose,
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pack = packs.find(p => p.id === selectedPackId) ?? packs[0];
+
+  const updatePack = (changes: Partial<AnglePack>) => {
+    onChange(packs.map(p => p.id === pack.id ? { ...p, ...changes } : p));
+  };
+
+  const updateAngle = (id: string, changes: Partial<CameraAngle>) => {
+    updatePack({ angles: pack.angles.map(a => a.id === id ? { ...a, ...changes } : a) });
+  };
+
+  const moveAngle = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pack.angles.length) return;
+    const angles = [...pack.angles];
+    [angles[index], angles[target]] = [angles[target], angles[index]];
+    updatePack({ angles });
+  };
+
+  const handleNewPack = (source?: AnglePack) => {
+    const newPack = createPack(source ? `${source.name} (Copy)` : 'New Pack', source?.angles);
+    onChange([...packs, newPack]);
+    onSelect(newPack.id);
+  };
+
+  const handleDeletePack = () => {
+    const remaining = packs.filter(p => p.id !== pack.id);
+    const next = remaining.length > 0 ? remaining : [DEFAULT_ANGLE_PACK];
+    onChange(next);
+    onSelect(next[0].id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportAnglePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${pack.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Imported packs always get fresh ids so they never overwrite an existing pack
+      const imported = parseAnglePacks(await file.text()).map(p => ({ ...p, id: crypto.randomUUID() }));
+      onChange([...packs, ...imported]);
+      onSelect(imported[0].id);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || "Could not read angle pack file.");
+    }
+  };
+
+  const enabledCount = pack.angles.filter(a => a.enabled).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Camera Angle Presets</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={pack.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+          >
+            {packs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <input
+            value={pack.name}
+            onChange={(e) => updatePack({ name: e.target.value })}
+            className="flex-1 min-w-[160px] bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+            aria-label="Pack name"
+          />
+          <Button size="sm" variant="ghost" onClick={() => handleNewPack()} title="New pack">
+            <Plus size={16} />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => handleNewPack(pack)} title="Duplicate pack">
+            <Copy size={16} />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => fileInputRef.current?.click()} title="Import JSON">
+            <Upload size={16} />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleExport} title="Export JSON">
+            <Download size={16} />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleDeletePack} title="Delete pack">
+            <Trash2 size={16} className="text-red-400" />
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+
+        {importError && (
+          <div className="p-3 mb-4 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm">
+            {importError}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {pack.angles.map((a, index) => (
+            <div
+              key={a.id}
+              className={`flex items-start gap-2 p-3 rounded-lg border ${a.enabled ? 'border-gray-700 bg-gray-950/50' : 'border-gray-800 bg-gray-950/20 opacity-60'}`}
+            >
+              <input
+                type="checkbox"
+                checked={a.enabled}
+                onChange={(e) => updateAngle(a.id, { enabled: e.target.checked })}
+                className="mt-2.5 accent-indigo-500"
+                aria-label={`Enable ${a.name}`}
+              />
+              <div className="flex-1 space-y-2">
+                <input
+                  value={a.name}
+                  onChange={(e) => updateAngle(a.id, { name: e.target.value })}
+                  className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Angle name"
+                />
+                <textarea
+                  value={a.promptSuffix}
+                  onChange={(e) => updateAngle(a.id, { promptSuffix: e.target.value })}
+                  className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500 resize-none"
+                  placeholder="Prompt suffix, e.g. 'viewed from directly above'"
+                  rows={2}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <Button size="sm" variant="ghost" onClick={() => moveAngle(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp size={14} />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => moveAngle(index, 1)} disabled={index === pack.angles.length - 1} title="Move down">
+                  <ArrowDown size={14} />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updatePack({ angles: pack.angles.filter(x => x.id !== a.id) })}
+                  title="Delete angle"
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-800">
+          <span className="text-sm text-gray-400">
+            {enabledCount} of {pack.angles.length} angle{pack.angles.length !== 1 ? 's' : ''} enabled
+          </span>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => updatePack({ angles: [...pack.angles, createAngle()] })}>
+              <Plus size={16} className="mr-2" />
+              Add Angle
+            </Button>
+            <Button onClick={onClose}>Done</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
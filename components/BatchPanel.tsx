@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { FolderOpen, Upload, Play, Pause, Square, Trash2, X, CheckCircle2, XCircle, Loader2, Clock, Ban } from 'lucide-react';
+import { Button } from './Button';
+import { BatchItem } from '../types';
+import { BatchFile, filesFromDrop, filesFromList, summarizeBatch } from '../services/batch';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  isPaused: boolean;
+  canStart: boolean;
+  onAddFiles: (files: BatchFile[]) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_ICONS = {
+  queued: { icon: Clock, className: 'text-gray-500' },
+  running: { icon: Loader2, className: 'text-indigo-400 animate-spin' },
+  done: { icon: CheckCircle2, className: 'text-green-400' },
+  failed: { icon: XCircle, className: 'text-red-400' },
+  cancelled: { icon: Ban, className: 'text-gray-500' },
+};
+
+/**
+ * Source list of a batch: files or folders are added by picking or dropping,
+ * and each source shows how many of its angles have finished.
+ */
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  items,
+  isRunning,
+  isPaused,
+  canStart,
+  onAddFiles,
+  onRemove,
+  onClear,
+  onStart,
+  onPause,
+  onResume,
+  onCancel,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const summary = summarizeBatch(items);
+  const hasRunning = items.some(item => item.status === 'running');
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filesFromList(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isRunning) return;
+    const files = await filesFromDrop(e.dataTransfer);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="mb-6 space-y-3">
+      <label className="block text-sm font-medium text-gray-400">Source Images</label>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-3 p-4 border-2 border-dashed rounded-xl text-center transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700'}`}
+      >
+        <p className="text-sm text-gray-400">Drop images or folders here</p>
+        <div className="flex gap-2">
+          <input type="file" accept="image/*,.heic,.heif" multiple onChange={handleInput} className="hidden" id="batch-upload" disabled={isRunning} />
+          <label htmlFor="batch-upload" className={`inline-flex items-center px-3 py-1.5 text-sm rounded-lg bg-gray-800 border border-gray-700 text-gray-100 ${isRunning ? 'opacity-50' : 'cursor-pointer hover:bg-gray-700'}`}>
+            <Upload size={14} className="mr-1.5" />
+            Add files
+          </label>
+          <input type="file" multiple onChange={handleInput} className="hidden" id="batch-folder-upload" disabled={isRunning} {...{ webkitdirectory: '' }} />
+          <label htmlFor="batch-folder-upload" className={`inline-flex items-center px-3 py-1.5 text-sm rounded-lg bg-gray-800 border border-gray-700 text-gray-100 ${isRunning ? 'opacity-50' : 'cursor-pointer hover:bg-gray-700'}`}>
+            <FolderOpen size={14} className="mr-1.5" />
+            Add folder
+          </label>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>
+              {summary.done} of {summary.total} done{summary.failed > 0 && `, ${summary.failed} failed`}
+            </span>
+            {!isRunning && (
+              <button onClick={onClear} className="flex items-center gap-1 hover:text-white">
+                <Trash2 size={12} />
+                Clear
+              </button>
+            )}
+          </div>
+          <ul className="max-h-72 overflow-y-auto space-y-1.5 pr-1">
+            {items.map(item => {
+              const { icon: Icon, className } = STATUS_ICONS[item.status];
+              return (
+                <li key={item.id} className="flex items-center gap-2 p-1.5 rounded-lg bg-gray-950 border border-gray-800">
+                  <img src={item.data} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-gray-200 truncate" title={item.name}>{item.name}</p>
+                    <div className="h-1 mt-1 rounded bg-gray-800 overflow-hidden">
+                      <div
+                        className={`h-full ${item.failed > 0 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                        style={{ width: `${item.total ? (item.status === 'done' ? 100 : item.completed / item.total * 100) : 0}%` }}
+                      />
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-0.5 truncate" title={item.error}>
+                      {item.status === 'running' || item.completed > 0 ? `${item.completed}/${item.total} angles` : item.status}
+                      {item.failed > 0 && ` · ${item.failed} failed`}
+                      {item.error && ` · ${item.error}`}
+                    </p>
+                  </div>
+                  <Icon size={16} className={`flex-shrink-0 ${className}`} aria-label={item.status} />
+                  {!isRunning && (
+                    <button onClick={() => onRemove(item.id)} className="text-gray-500 hover:text-white p-1" aria-label={`Remove ${item.name}`}>
+                      <X size={14} />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {isRunning ? (
+        <div className="flex gap-2">
+          {isPaused ? (
+            <Button variant="secondary" className="flex-1" onClick={onResume}>
+              <Play size={16} className="mr-2" />
+              Resume
+            </Button>
+          ) : (
+            <Button variant="secondary" className="flex-1" onClick={onPause}>
+              <Pause size={16} className="mr-2" />
+              Pause
+            </Button>
+          )}
+          <Button variant="danger" className="flex-1" onClick={onCancel}>
+            <Square size={16} className="mr-2" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button className="w-full" size="lg" onClick={onStart} disabled={!canStart || summary.remaining + summary.failed === 0}>
+          <Play size={16} className="mr-2" />
+          {summary.done > 0 || summary.failed > 0 ? 'Resume batch' : 'Start batch'}
+        </Button>
+      )}
+      {isRunning && isPaused && (
+        <p className="text-xs text-amber-300">
+          {hasRunning ? 'Pausing after the current image...' : 'Paused.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Archive, Image } from 'lucide-react';
+import { Button } from './Button';
+import { ResultTile } from './ResultTile';
+import { BatchItem, ImageResult } from '../types';
+import { RunTile } from '../services/runTiles';
+
+interface BatchResultsProps {
+  runs: { item: BatchItem; tiles: RunTile[] }[];
+  onView: (image: ImageResult) => void;
+  onExport: () => void;
+}
+
+const STATUS_LABELS = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/** Results of a batch, grouped under the source image they were made from. */
+export const BatchResults: React.FC<BatchResultsProps> = ({ runs, onView, onExport }) => {
+  const imageCount = runs.reduce((sum, run) => sum + run.tiles.filter(t => t.image).length, 0);
+  const started = runs.filter(run => run.tiles.length > 0 || run.item.status !== 'queued');
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Batch Results</h2>
+        {imageCount > 0 && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-400">
+              {imageCount} image{imageCount !== 1 ? 's' : ''} from {runs.filter(run => run.tiles.some(t => t.image)).length} sources
+            </span>
+            <Button variant="secondary" size="sm" onClick={onExport}>
+              <Archive size={16} className="mr-2" />
+              Export all
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {started.length === 0 ? (
+        <div className="h-96 flex flex-col items-center justify-center bg-gray-900/30 border border-gray-800 rounded-xl border-dashed text-gray-500">
+          <Image size={48} className="mb-4 opacity-50" />
+          <p>No batch results yet.</p>
+          <p className="text-sm">Add source images and start the batch to run the angle pack over each.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {started.map(({ item, tiles }) => (
+            <section key={item.id} aria-label={item.name}>
+              <div className="flex items-center gap-3 mb-3">
+                <img src={item.data} alt="" className="w-10 h-10 rounded object-cover" />
+                <div className="min-w-0">
+                  <h3 className="text-sm font-medium text-white truncate">{item.name}</h3>
+                  <p className="text-xs text-gray-500">
+                    {STATUS_LABELS[item.status]}
+                    {item.total > 0 && ` · ${item.completed}/${item.total} angles`}
+                    {item.failed > 0 && ` · ${item.failed} failed`}
+                  </p>
+                </div>
+              </div>
+              {tiles.length > 0 && (
+                <div className="flex flex-wrap gap-4" role="list" aria-label={`Results of ${item.name}`}>
+                  {tiles.map(({ key, image, angle, error, modelText }) => (
+                    <ResultTile key={key} image={image} angle={angle} error={error} modelText={modelText} onView={onView} rowHeight={160} />
+                  ))}
+                  <div className="flex-grow-[1000]" aria-hidden="true" />
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+
+interface BudgetWarningProps {
+  message: string;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+/** Asks before starting a run that would go over the session budget. */
+export const BudgetWarning: React.FC<BudgetWarningProps> = ({ message, onContinue, onCancel }) => (
+  <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-center justify-center p-4" onClick={onCancel}>
+    <div
+      role="alertdialog"
+      aria-label="Over budget"
+      className="bg-gray-900 border border-amber-700 rounded-xl p-6 max-w-md w-full space-y-4 shadow-2xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h2 className="text-lg font-bold text-white flex items-center gap-2">
+        <AlertTriangle size={20} className="text-amber-400" />
+        Over budget
+      </h2>
+      <p className="text-sm text-gray-300">{message}</p>
+      <div className="flex gap-2 justify-end">
+        <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+        <Button onClick={onContinue}>Run anyway</Button>
+      </div>
+    </div>
+  </div>
+);
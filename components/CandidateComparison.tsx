@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Star, Maximize2, ZoomIn, ZoomOut, LayoutGrid, SplitSquareHorizontal } from 'lucide-react';
+import { Button } from './Button';
+import { ImageResult } from '../types';
+import { aspectRatioCss } from '../services/aspectRatio';
+
+interface CandidateComparisonProps {
+  images: ImageResult[]; // Candidates of one run, in candidate order
+  onPickWinner: (image: ImageResult) => void;
+  onView: (image: ImageResult) => void;
+}
+
+interface ViewState {
+  zoom: number;
+  x: number; // Pan offset in unscaled image pixels
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const INITIAL_VIEW: ViewState = { zoom: 1, x: 0, y: 0 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const candidateLabel = (image: ImageResult) => `#${(image.candidate?.index ?? 0) + 1}`;
+
+const samplingLabel = (image: ImageResult) => [
+  image.candidate?.seed !== undefined && `seed ${image.candidate.seed}`,
+  image.candidate?.temperature !== undefined && `temp ${image.candidate.temperature}`,
+].filter(Boolean).join(' · ');
+
+/**
+ * Compares the candidates of a run side by side or as an A/B split. Zoom and pan
+ * are shared, so the same detail is shown in every candidate at once.
+ */
+export const CandidateComparison: React.FC<CandidateComparisonProps> = ({ images, onPickWinner, onView }) => {
+  const [layout, setLayout] = useState<'grid' | 'split'>('grid');
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [aId, setAId] = useState(images[0]?.id);
+  const [bId, setBId] = useState(images[1]?.id);
+  const [split, setSplit] = useState(50);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Keep the A/B picks valid when the run changes
+  useEffect(() => {
+    if (!images.some(img => img.id === aId)) setAId(images[0]?.id);
+    if (!images.some(img => img.id === bId)) setBId(images[1]?.id ?? images[0]?.id);
+  }, [images, aId, bId]);
+
+  const zoomBy = (factor: number) =>
+    setView(v => {
+      const zoom = clampZoom(v.zoom * factor);
+      return zoom === MIN_ZOOM ? INITIAL_VIEW : { ...v, zoom };
+    });
+
+  // Registered natively so preventDefault can stop the page from scrolling while the frames zoom
+  useEffect(() => {
+    const el = rootRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!(e.target as HTMLElement).closest('[data-zoom-frame]')) return;
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.2 : 1 / 1.2);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const panHandlers = {
+    'data-zoom-frame': true,
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      // Buttons on top of the image (winner, open) keep working while zoomed
+      if (view.zoom === MIN_ZOOM || (e.target as HTMLElement).closest('button')) return;
+      dragRef.current = { x: e.clientX, y: e.clientY };
+      e.currentTarget.setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      dragRef.current = { x: e.clientX, y: e.clientY };
+      setView(v => ({ ...v, x: v.x + dx / v.zoom, y: v.y + dy / v.zoom }));
+    },
+    onPointerUp: () => { dragRef.current = null; },
+    onPointerCancel: () => { dragRef.current = null; },
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `scale(${view.zoom}) translate(${view.x}px, ${view.y}px)`,
+    transformOrigin: 'center',
+  };
+  const frameStyle: React.CSSProperties = {
+    aspectRatio: aspectRatioCss(images[0]?.aspectRatio ?? '1:1'),
+    cursor: view.zoom > MIN_ZOOM ? 'grab' : 'zoom-in',
+    touchAction: 'none',
+  };
+
+  const winnerButton = (image: ImageResult) => (
+    <button
+      onClick={() => onPickWinner(image)}
+      aria-pressed={!!image.winner}
+      aria-label={`Pick candidate ${candidateLabel(image)} as winner`}
+      title={image.winner ? 'Winner (click to unpick)' : 'Pick as winner'}
+      className={`p-1.5 rounded-full bg-black/70 transition-colors ${image.winner ? 'text-amber-400' : 'text-gray-300 hover:text-amber-300'}`}
+    >
+      <Star size={16} fill={image.winner ? 'currentColor' : 'none'} />
+    </button>
+  );
+
+  const a = images.find(img => img.id === aId) ?? images[0];
+  const b = images.find(img => img.id === bId) ?? images[1] ?? images[0];
+  const selectClass = "bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div ref={rootRef} className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          <Button size="sm" variant={layout === 'grid' ? 'secondary' : 'ghost'} onClick={() => setLayout('grid')} aria-pressed={layout === 'grid'}>
+            <LayoutGrid size={14} className="mr-1.5" />
+            Side by side
+          </Button>
+          <Button size="sm" variant={layout === 'split' ? 'secondary' : 'ghost'} onClick={() => setLayout('split')} aria-pressed={layout === 'split'}>
+            <SplitSquareHorizontal size={14} className="mr-1.5" />
+            A/B
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={() => zoomBy(1 / 1.5)} disabled={view.zoom === MIN_ZOOM} aria-label="Zoom out">
+            <ZoomOut size={14} />
+          </Button>
+          <button onClick={() => setView(INITIAL_VIEW)} className="text-xs text-gray-400 hover:text-white w-12 text-center" title="Reset zoom">
+            {Math.round(view.zoom * 100)}%
+          </button>
+          <Button size="sm" variant="ghost" onClick={() => zoomBy(1.5)} disabled={view.zoom === MAX_ZOOM} aria-label="Zoom in">
+            <ZoomIn size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {layout === 'grid' ? (
+        <div className={`grid gap-3 ${images.length > 4 ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-2'}`}>
+          {images.map(image => (
+            <div
+              key={image.id}
+              className={`relative overflow-hidden rounded-xl bg-gray-900 border ${image.winner ? 'border-amber-400' : 'border-gray-800'}`}
+              style={frameStyle}
+              {...panHandlers}
+            >
+              <img src={image.data} alt={image.prompt} className="w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+              <span className="absolute top-2 left-2 text-xs bg-black/70 text-white px-2 py-1 rounded">
+                {candidateLabel(image)}
+              </span>
+              <div className="absolute top-2 right-2 flex gap-1">
+                {winnerButton(image)}
+                <button
+                  onClick={() => onView(image)}
+                  aria-label={`Open candidate ${candidateLabel(image)}`}
+                  className="p-1.5 rounded-full bg-black/70 text-gray-300 hover:text-white"
+                >
+                  <Maximize2 size={16} />
+                </button>
+              </div>
+              {samplingLabel(image) && (
+                <span className="absolute bottom-2 left-2 text-[10px] bg-black/70 text-gray-300 px-1.5 py-0.5 rounded">
+                  {samplingLabel(image)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+            <div className="flex items-center gap-2">
+              A
+              <select value={a.id} onChange={(e) => setAId(e.target.value)} className={selectClass} aria-label="Candidate A">
+                {images.map(img => <option key={img.id} value={img.id}>{candidateLabel(img)}</option>)}
+              </select>
+              {winnerButton(a)}
+            </div>
+            <div className="flex items-center gap-2">
+              {winnerButton(b)}
+              <select value={b.id} onChange={(e) => setBId(e.target.value)} className={selectClass} aria-label="Candidate B">
+                {images.map(img => <option key={img.id} value={img.id}>{candidateLabel(img)}</option>)}
+              </select>
+              B
+            </div>
+          </div>
+          <div className="relative overflow-hidden rounded-xl bg-gray-900 border border-gray-800" style={frameStyle} {...panHandlers}>
+            <img src={b.data} alt={`Candidate B: ${b.prompt}`} className="absolute inset-0 w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              <img src={a.data} alt={`Candidate A: ${a.prompt}`} className="w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            </div>
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            className="w-full accent-indigo-500"
+            aria-label="A/B split position"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
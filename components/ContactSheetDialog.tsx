@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { X, LayoutGrid } from 'lucide-react';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import { ImageResult } from '../types';
+import { composeContactSheet, ContactSheetOptions, ContactSheetTile, DEFAULT_CONTACT_SHEET_OPTIONS } from '../services/contactSheet';
+import { ExportFormat, downloadDataUrl, extensionForMimeType } from '../services/imageFormat';
+
+interface ContactSheetDialogProps {
+  images: ImageResult[];
+  sourceImage: string | null;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 960;
+
+const RESOLUTIONS = [
+  { width: 1920, label: 'HD (1920px)' },
+  { width: 3840, label: '4K (3840px)' },
+  { width: 7680, label: '8K (7680px)' },
+];
+
+export const ContactSheetDialog: React.FC<ContactSheetDialogProps> = ({ images, sourceImage, onClose }) => {
+  const [options, setOptions] = useState<ContactSheetOptions>(DEFAULT_CONTACT_SHEET_OPTIONS);
+  const [includeSource, setIncludeSource] = useState(!!sourceImage);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tiles: ContactSheetTile[] = [
+    ...(includeSource && sourceImage ? [{ src: sourceImage, caption: 'Source' }] : []),
+    ...images.map(img => ({
+      src: img.data,
+      caption: img.angle?.name ?? img.prompt,
+      subcaption: img.model,
+    })),
+  ];
+
+  const update = (changes: Partial<ContactSheetOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  // Re-render the preview at a small size whenever the layout changes. The gutter is
+  // scaled down with the width so the preview matches the exported proportions.
+  useEffect(() => {
+    let cancelled = false;
+    const scale = PREVIEW_WIDTH / options.width;
+    composeContactSheet(tiles, {
+      ...options,
+      width: PREVIEW_WIDTH,
+      gutter: Math.round(options.gutter * scale),
+      format: 'image/jpeg',
+      quality: 0.8,
+    })
+      .then(url => { if (!cancelled) { setPreview(url); setError(null); } })
+      .catch(err => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [options, includeSource, images, sourceImage]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const url = await composeContactSheet(tiles, options);
+      downloadDataUrl(url, `contact-sheet-${Date.now()}.${extensionForMimeType(options.format)}`);
+    } catch (err: any) {
+      setError(err.message || "Failed to export contact sheet");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-5xl w-full max-h-[90vh] flex flex-col md:flex-row gap-6 shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-1 flex items-center justify-center bg-gray-950 rounded-lg min-h-[300px] p-2">
+          {preview ? (
+            <img src={preview} alt="Contact sheet preview" className="max-h-[70vh] max-w-full object-contain" />
+          ) : (
+            <Spinner />
+          )}
+        </div>
+
+        <div className="w-full md:w-72 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <LayoutGrid size={20} />
+              Contact Sheet
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-400">
+              Columns
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={options.columns}
+                onChange={(e) => update({ columns: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Gutter (px)
+              <input
+                type="number"
+                min={0}
+                max={200}
+                value={options.gutter}
+                onChange={(e) => update({ gutter: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Background
+              <input
+                type="color"
+                value={options.background}
+                onChange={(e) => update({ background: e.target.value })}
+                className="w-full h-9 mt-1 bg-gray-950 border border-gray-700 rounded-lg"
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Caption Color
+              <input
+                type="color"
+                value={options.textColor}
+                onChange={(e) => update({ textColor: e.target.value })}
+                className="w-full h-9 mt-1 bg-gray-950 border border-gray-700 rounded-lg"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.showCaptions}
+              onChange={(e) => update({ showCaptions: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Captions (angle name, model)
+          </label>
+          {sourceImage && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeSource}
+                onChange={(e) => setIncludeSource(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              Include source image
+            </label>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-400">
+              Resolution
+              <select
+                value={options.width}
+                onChange={(e) => update({ width: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              >
+                {RESOLUTIONS.map(r => <option key={r.width} value={r.width}>{r.label}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400">
+              Format
+              <select
+                value={options.format}
+                onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="image/png">PNG</option>
+                <option value="image/jpeg">JPEG</option>
+              </select>
+            </label>
+          </div>
+
+          {options.format === 'image/jpeg' && (
+            <label className="block text-xs text-gray-400">
+              Quality: {Math.round(options.quality * 100)}%
+              <input
+                type="range"
+                min={10}
+                max={100}
+                value={Math.round(options.quality * 100)}
+                onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                className="w-full accent-indigo-500 mt-1"
+              />
+            </label>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <Button onClick={handleExport} isLoading={isExporting} className="w-full">
+            Export {tiles.length} Image{tiles.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from './Button';
+import { ImageResult } from '../types';
+import { EXPORT_FORMATS, ExportFormat, convertImage, formatLabel, downloadDataUrl, imageFilename } from '../services/imageFormat';
+
+interface DownloadMenuProps {
+  image: ImageResult;
+}
+
+// 'original' downloads the bytes exactly as the model returned them
+type DownloadFormat = 'original' | ExportFormat;
+
+export const DownloadMenu: React.FC<DownloadMenuProps> = ({ image }) => {
+  const [format, setFormat] = useState<DownloadFormat>('original');
+  const [quality, setQuality] = useState(92);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLossy = EXPORT_FORMATS.some(f => f.mimeType === format && f.lossy);
+
+  const handleDownload = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      const mimeType = format === 'original' ? image.mimeType : format;
+      const data = format === 'original' || (format === image.mimeType && !isLossy)
+        ? image.data
+        : await convertImage(image.data, format, quality / 100);
+      downloadDataUrl(data, imageFilename(image.id, mimeType));
+    } catch (err: any) {
+      setError(err.message || "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as DownloadFormat)}
+        className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500"
+        aria-label="Download format"
+      >
+        <option value="original">Original ({formatLabel(image.mimeType)})</option>
+        {EXPORT_FORMATS.map(f => (
+          <option key={f.mimeType} value={f.mimeType}>{f.label}</option>
+        ))}
+      </select>
+
+      {isLossy && (
+        <label className="block text-xs text-gray-400">
+          Quality: {quality}%
+          <input
+            type="range"
+            min={10}
+            max={100}
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            className="w-full accent-indigo-500 mt-1"
+          />
+        </label>
+      )}
+
+      <Button onClick={handleDownload} isLoading={isExporting} className="w-full">
+        <Download size={18} className="mr-2" />
+        Download Image
+      </Button>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
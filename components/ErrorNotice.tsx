@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlertTriangle, Key, RotateCcw } from 'lucide-react';
+import { Button } from './Button';
+import { RephraseHelper } from './RephraseHelper';
+import { GenerationError, ERROR_GUIDANCE, describeFailure } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: Error;
+  onRetry?: () => void;
+  onSelectKey?: () => void;
+  prompt?: string; // The blocked prompt, offered for rephrasing after a safety block
+  onRephrase?: (prompt: string, reason: string) => Promise<string>;
+  onUsePrompt?: (prompt: string) => void;
+}
+
+/**
+ * Shows an error with guidance for its kind. Plain errors (validation messages,
+ * cancellation) are shown as just their message.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onSelectKey, prompt, onRephrase, onUsePrompt }) => {
+  const boxClass = "p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm";
+
+  if (!(error instanceof GenerationError)) {
+    return <div className={boxClass} role="alert">{error.message}</div>;
+  }
+
+  const { title, hint } = ERROR_GUIDANCE[error.kind];
+  const showRetry = onRetry && error.kind !== 'auth' && error.kind !== 'safety';
+
+  return (
+    <div className={`${boxClass} space-y-2`} role="alert">
+      <p className="font-semibold flex items-center gap-2">
+        <AlertTriangle size={16} className="flex-shrink-0" />
+        {title}
+      </p>
+      <p>{error.message}</p>
+      {error.modelText && (
+        <p className="text-xs text-gray-300 italic border-l-2 border-red-800 pl-2">Model: “{error.modelText}”</p>
+      )}
+      <p className="text-xs text-red-300/80">{hint}</p>
+      {error.kind === 'safety' && prompt?.trim() && onRephrase && onUsePrompt && (
+        <RephraseHelper prompt={prompt} reason={describeFailure(error)} onSuggest={onRephrase} onUse={onUsePrompt} />
+      )}
+      {(showRetry || (error.kind === 'auth' && onSelectKey)) && (
+        <div className="flex gap-2 pt-1">
+          {error.kind === 'auth' && onSelectKey && (
+            <Button size="sm" variant="secondary" onClick={onSelectKey}>
+              <Key size={14} className="mr-1.5" />
+              Select API key
+            </Button>
+          )}
+          {showRetry && (
+            <Button size="sm" variant="secondary" onClick={onRetry}>
+              <RotateCcw size={14} className="mr-1.5" />
+              Try again
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
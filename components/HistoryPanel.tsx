@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Trash2, RotateCcw, History, FolderOpen } from 'lucide-react';
+import { Button } from './Button';
+import { ImageResult, HistoryRun } from '../types';
+import { groupRuns } from '../services/imageLibrary';
+
+interface HistoryPanelProps {
+  images: ImageResult[];
+  activeRunId: string | null;
+  onOpenRun: (run: HistoryRun) => void;
+  onDelete: (ids: string[]) => void;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  images,
+  activeRunId,
+  onOpenRun,
+  onDelete,
+  onRestore,
+  onPurge,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [showTrash, setShowTrash] = useState(false);
+
+  const runs = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const visible = images.filter(img =>
+      (showTrash ? !!img.deletedAt : !img.deletedAt) &&
+      (!needle || img.prompt.toLowerCase().includes(needle))
+    );
+    return groupRuns(visible);
+  }, [images, query, showTrash]);
+
+  const trashCount = images.filter(img => img.deletedAt).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-gray-900 border-l border-gray-800 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <History size={20} />
+            {showTrash ? 'Trash' : 'History'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-gray-800">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search prompts..."
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg py-2 pl-9 pr-3 text-sm text-gray-100 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={showTrash ? 'ghost' : 'secondary'} onClick={() => setShowTrash(false)}>
+              Library
+            </Button>
+            <Button size="sm" variant={showTrash ? 'secondary' : 'ghost'} onClick={() => setShowTrash(true)}>
+              Trash ({trashCount})
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {runs.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-12">
+              {query ? 'No images match your search.' : showTrash ? 'Trash is empty.' : 'No saved generations yet.'}
+            </p>
+          )}
+
+          {runs.map(run => {
+            const ids = run.images.map(img => img.id);
+            return (
+              <div
+                key={run.id}
+                className={`rounded-xl border p-3 ${run.id === activeRunId ? 'border-indigo-500 bg-gray-800/60' : 'border-gray-800 bg-gray-950/50'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="text-sm text-gray-200">{new Date(run.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">
+                      {run.images.length} image{run.images.length !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    {showTrash ? (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={() => onRestore(ids)} title="Restore">
+                          <RotateCcw size={14} />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => onPurge(ids)} title="Delete forever">
+                          <Trash2 size={14} className="text-red-400" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={() => onOpenRun(run)} title="Open in grid">
+                          <FolderOpen size={14} />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => onDelete(ids)} title="Move to trash">
+                          <Trash2 size={14} />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {run.images.map(img => (
+                    <div key={img.id} className="group relative aspect-square rounded-lg overflow-hidden bg-gray-800">
+                      <img src={img.data} alt={img.prompt} title={img.prompt} className="w-full h-full object-cover" />
+                      <button
+                        onClick={() => (showTrash ? onRestore([img.id]) : onDelete([img.id]))}
+                        title={showTrash ? 'Restore' : 'Move to trash'}
+                        className="absolute top-1 right-1 p-1 rounded bg-black/70 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        {showTrash ? <RotateCcw size={12} /> : <Trash2 size={12} />}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Minimize2, SplitSquareHorizontal } from 'lucide-react';
+import { Viewport, Size, fitViewport, zoomAt, panBy, visibleRect, centerOn } from '../services/viewport';
+
+interface ImageInspectorProps {
+  src: string;
+  alt: string;
+  compareSrc?: string | null; // Image this one was derived from, for the before/after split
+  onLoad?: (size: Size) => void; // Reports the real pixel dimensions
+  controlsRef?: React.Ref<InspectorControls>; // Lets keyboard shortcuts drive the zoom
+}
+
+export interface InspectorControls {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  zoomActual: () => void;
+  fit: () => void;
+  toggleCompare: () => void;
+}
+
+const MINIMAP_WIDTH = 140;
+const ZOOM_STEP = 1.5;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Pan-and-zoom viewer: wheel or pinch zooms to the cursor, dragging pans,
+ * double-click toggles between fit and 100%. A minimap shows the visible part
+ * while zoomed in, and the split view compares against `compareSrc`.
+ */
+export const ImageInspector: React.FC<ImageInspectorProps> = ({ src, alt, compareSrc, onLoad, controlsRef }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<Size>({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<Size>({ width: 0, height: 0 });
+  const [view, setView] = useState<Viewport>({ scale: 1, x: 0, y: 0 });
+  const [isFit, setIsFit] = useState(true); // Follows the container size until the user zooms or pans
+  const [compare, setCompare] = useState(false);
+  const [split, setSplit] = useState(50);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; scale: number } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setBox({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setIsFit(true);
+    setNatural({ width: 0, height: 0 });
+  }, [src]);
+
+  useEffect(() => {
+    if (!compareSrc) setCompare(false);
+  }, [compareSrc]);
+
+  useEffect(() => {
+    if (isFit) setView(fitViewport(natural, box));
+  }, [isFit, natural, box]);
+
+  const update = (next: (v: Viewport) => Viewport) => {
+    setIsFit(false);
+    setView(next);
+  };
+
+  const localPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // Registered natively so preventDefault can stop the page (or the browser's pinch) from zooming
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { x, y } = localPoint(e.clientX, e.clientY);
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002));
+      update(v => zoomAt(v, v.scale * factor, x, y, natural, box));
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [natural, box]);
+
+  const isControl = (target: EventTarget) => !!(target as HTMLElement).closest('button, input, [data-minimap]');
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isControl(e.target)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      pinchRef.current = { distance: distance(a, b), scale: view.scale };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2 && pinchRef.current) {
+      const [a, b] = [...pointers.current.values()];
+      const mid = localPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const scale = pinchRef.current.scale * distance(a, b) / pinchRef.current.distance;
+      update(v => zoomAt(v, scale, mid.x, mid.y, natural, box));
+    } else if (pointers.current.size === 1) {
+      update(v => panBy(v, e.clientX - previous.x, e.clientY - previous.y, natural, box));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchRef.current = null;
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (isControl(e.target)) return;
+    if (view.scale < 1) {
+      const { x, y } = localPoint(e.clientX, e.clientY);
+      update(v => zoomAt(v, 1, x, y, natural, box));
+    } else {
+      setIsFit(true);
+    }
+  };
+
+  const zoomCentered = (scale: number) =>
+    update(v => zoomAt(v, scale, box.width / 2, box.height / 2, natural, box));
+
+  // Relative to the current scale when called, so repeated presses keep zooming
+  const zoomBy = (factor: number) =>
+    update(v => zoomAt(v, v.scale * factor, box.width / 2, box.height / 2, natural, box));
+
+  useImperativeHandle(controlsRef, () => ({
+    zoomIn: () => zoomBy(ZOOM_STEP),
+    zoomOut: () => zoomBy(1 / ZOOM_STEP),
+    zoomActual: () => zoomCentered(1),
+    fit: () => setIsFit(true),
+    toggleCompare: () => { if (compareSrc) setCompare(c => !c); },
+  }), [natural, box, compareSrc]);
+
+  const handleMinimap = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = natural.width / rect.width;
+    const px = (e.clientX - rect.left) * ratio;
+    const py = (e.clientY - rect.top) * ratio;
+    update(v => centerOn(v, px, py, natural, box));
+  };
+
+  const loaded = natural.width > 0;
+  const isPannable = loaded && (natural.width * view.scale > box.width + 1 || natural.height * view.scale > box.height + 1);
+  const visible = visibleRect(view, natural, box);
+  const minimapRatio = loaded ? MINIMAP_WIDTH / natural.width : 0;
+
+  const layerStyle: React.CSSProperties = {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: natural.width || undefined,
+    height: natural.height || undefined,
+    maxWidth: 'none',
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: '0 0',
+    // Past 100% show the real pixels instead of a smoothed blur
+    imageRendering: view.scale > 1 ? 'pixelated' : 'auto',
+    visibility: loaded ? 'visible' : 'hidden',
+  };
+
+  const toolButton = "p-1.5 rounded-full text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full overflow-hidden select-none"
+      style={{ cursor: isPannable ? 'grab' : 'zoom-in', touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      <img
+        src={src}
+        alt={alt}
+        style={layerStyle}
+        draggable={false}
+        onLoad={(e) => {
+          const size = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+          setNatural(size);
+          onLoad?.(size);
+        }}
+      />
+
+      {compare && compareSrc && (
+        <>
+          <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+            <img src={compareSrc} alt="Before" style={layerStyle} draggable={false} />
+          </div>
+          <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+          <span className="absolute top-3 left-3 text-xs bg-black/70 text-white px-2 py-1 rounded pointer-events-none">Before</span>
+          <span className="absolute top-3 right-3 text-xs bg-black/70 text-white px-2 py-1 rounded pointer-events-none">After</span>
+        </>
+      )}
+
+      <div className="absolute bottom-3 right-3 flex items-center gap-1 bg-black/70 rounded-full px-2 py-1">
+        {compareSrc && (
+          <button
+            onClick={() => setCompare(c => !c)}
+            className={`${toolButton} ${compare ? 'text-indigo-300' : ''}`}
+            aria-pressed={compare}
+            aria-label="Compare with the previous version"
+            title="Before/after"
+          >
+            <SplitSquareHorizontal size={16} />
+          </button>
+        )}
+        {compare && (
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            className="w-24 accent-indigo-500"
+            aria-label="Before/after split position"
+          />
+        )}
+        <button onClick={() => zoomCentered(view.scale / ZOOM_STEP)} className={toolButton} aria-label="Zoom out" disabled={!loaded}>
+          <ZoomOut size={16} />
+        </button>
+        <span className="text-xs text-white w-12 text-center tabular-nums">{Math.round(view.scale * 100)}%</span>
+        <button onClick={() => zoomCentered(view.scale * ZOOM_STEP)} className={toolButton} aria-label="Zoom in" disabled={!loaded}>
+          <ZoomIn size={16} />
+        </button>
+        <button onClick={() => zoomCentered(1)} className={`${toolButton} text-xs font-semibold px-2`} aria-label="Actual pixels (100%)" disabled={!loaded}>
+          1:1
+        </button>
+        <button onClick={() => setIsFit(true)} className={toolButton} aria-label="Fit to view" disabled={!loaded}>
+          <Minimize2 size={16} />
+        </button>
+      </div>
+
+      {isPannable && (
+        <div
+          data-minimap
+          className="absolute bottom-3 left-3 border border-gray-600 bg-black/70 rounded overflow-hidden cursor-crosshair"
+          style={{ width: MINIMAP_WIDTH, height: natural.height * minimapRatio }}
+          onPointerDown={handleMinimap}
+          onPointerMove={handleMinimap}
+          aria-hidden="true"
+        >
+          <img src={src} alt="" className="w-full h-full opacity-70" draggable={false} />
+          <div
+            className="absolute border-2 border-indigo-400 bg-indigo-400/10 pointer-events-none"
+            style={{
+              left: visible.x * minimapRatio,
+              top: visible.y * minimapRatio,
+              width: visible.width * minimapRatio,
+              height: visible.height * minimapRatio,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Clock, Loader2, RefreshCw, CheckCircle2, XCircle, Ban } from 'lucide-react';
+import { JobProgress } from '../services/generationQueue';
+import { AspectRatio } from '../types';
+import { aspectRatioCss } from '../services/aspectRatio';
+
+interface JobStatusTileProps {
+  label: string;
+  progress?: JobProgress;
+  aspectRatio?: AspectRatio; // Shape of the image being made; square when not given
+  style?: React.CSSProperties; // Layout from the surrounding grid, e.g. justified row sizing
+}
+
+const STATUS_STYLES = {
+  pending: { icon: Clock, text: 'Queued', className: 'text-gray-400' },
+  running: { icon: Loader2, text: 'Generating', className: 'text-indigo-400' },
+  retrying: { icon: RefreshCw, text: 'Retrying', className: 'text-amber-400' },
+  done: { icon: CheckCircle2, text: 'Done', className: 'text-green-400' },
+  failed: { icon: XCircle, text: 'Failed', className: 'text-red-400' },
+  cancelled: { icon: Ban, text: 'Cancelled', className: 'text-gray-500' },
+};
+
+export const JobStatusTile: React.FC<JobStatusTileProps> = ({ label, progress, aspectRatio, style }) => {
+  const status = progress?.status ?? 'pending';
+  const { icon: Icon, text, className } = STATUS_STYLES[status];
+
+  return (
+    <div
+      role="listitem"
+      className="bg-gray-900/50 rounded-xl border border-gray-800 border-dashed flex flex-col items-center justify-center p-4 text-center"
+      style={{ aspectRatio: aspectRatioCss(aspectRatio ?? '1:1'), ...style }}
+    >
+      <Icon size={28} className={`${className} mb-3 ${status === 'running' ? 'animate-spin' : ''}`} />
+      <p className="text-sm font-medium text-gray-200">{label}</p>
+      <p className={`text-xs mt-1 ${className}`}>
+        {text}
+        {status === 'retrying' && progress?.retryInMs !== undefined && ` in ${Math.ceil(progress.retryInMs / 1000)}s (attempt ${progress.attempt + 1})`}
+      </p>
+      {progress?.error && (status === 'retrying' || status === 'failed') && (
+        <p className="text-xs text-gray-500 mt-2 line-clamp-3" title={progress.error}>{progress.error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitBranch, Play } from 'lucide-react';
+import { Button } from './Button';
+import { ImageResult, LineageNode, OperationParams, AspectRatio, ImageSize } from '../types';
+import { getAncestors, getDescendantTree } from '../services/lineage';
+import { ASPECT_RATIOS } from '../services/aspectRatio';
+
+interface LineagePanelProps {
+  image: ImageResult;
+  library: ImageResult[];
+  sourceImage: string | null; // Uploaded source the lineage starts from, if any
+  isRunning: boolean;
+  onSelect: (image: ImageResult) => void;
+  onRerun: (image: ImageResult, params: OperationParams) => void;
+}
+
+const OPERATION_LABELS = {
+  generate: 'Generate',
+  angle: 'Angle',
+  upscale: 'Upscale',
+  edit: 'Edit',
+  refine: 'Refine',
+};
+
+const nodeLabel = (image: ImageResult) =>
+  image.angle?.name ?? (image.operation ? OPERATION_LABELS[image.operation.type] : 'Image');
+
+export const LineagePanel: React.FC<LineagePanelProps> = ({ image, library, sourceImage, isRunning, onSelect, onRerun }) => {
+  const operation = image.operation;
+  const [params, setParams] = useState<OperationParams | null>(operation?.params ?? null);
+
+  useEffect(() => {
+    setParams(image.operation?.params ?? null);
+  }, [image]);
+
+  // Show the whole tree from the oldest known ancestor so siblings and cousins are reachable too
+  const tree = useMemo(() => {
+    const root = getAncestors(image, library)[0] ?? image;
+    return getDescendantTree(root, library);
+  }, [image, library]);
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => (
+    <li key={node.image.id}>
+      <button
+        onClick={() => onSelect(node.image)}
+        className={`flex items-center gap-2 w-full text-left rounded-lg p-1.5 transition-colors ${node.image.id === image.id ? 'bg-indigo-600/30 ring-1 ring-indigo-500' : 'hover:bg-gray-800'}`}
+        style={{ paddingLeft: `${depth * 16 + 6}px` }}
+        title={node.image.prompt}
+      >
+        <img src={node.image.data} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+        <span className="text-xs text-gray-300 truncate">{nodeLabel(node.image)}</span>
+        <span className="text-[10px] text-gray-500 ml-auto flex-shrink-0">
+          {new Date(node.image.timestamp).toLocaleTimeString()}
+        </span>
+      </button>
+      {node.children.length > 0 && <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>}
+    </li>
+  );
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mb-2">
+          <GitBranch size={16} />
+          Version Tree
+        </h4>
+        {sourceImage && (
+          <div className="flex items-center gap-2 p-1.5 text-xs text-gray-500">
+            <img src={sourceImage} alt="" className="w-8 h-8 rounded object-cover" />
+            Uploaded source
+          </div>
+        )}
+        <ul className="space-y-0.5 max-h-48 overflow-y-auto">{renderNode(tree, sourceImage ? 1 : 0)}</ul>
+      </div>
+
+      {operation && params && (
+        <div className="space-y-2 pt-3 border-t border-gray-800">
+          <h4 className="text-sm font-semibold text-white">Re-run {OPERATION_LABELS[operation.type]}</h4>
+          <textarea
+            value={params.prompt}
+            onChange={(e) => setParams({ ...params, prompt: e.target.value })}
+            rows={3}
+            className={`${inputClass} resize-none`}
+            aria-label="Prompt"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {operation.type !== 'upscale' && operation.type !== 'edit' && (
+              <select
+                value={params.aspectRatio ?? '1:1'}
+                onChange={(e) => setParams({ ...params, aspectRatio: e.target.value as AspectRatio })}
+                className={inputClass}
+                aria-label="Aspect ratio"
+              >
+                {ASPECT_RATIOS.map(({ value }) => <option key={value} value={value}>{value}</option>)}
+              </select>
+            )}
+            {(operation.type === 'generate' || operation.type === 'upscale') && (
+              <select
+                value={params.size ?? ImageSize.SIZE_1K}
+                onChange={(e) => setParams({ ...params, size: e.target.value as ImageSize })}
+                className={inputClass}
+                aria-label="Size"
+              >
+                {Object.values(ImageSize).map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            )}
+            {operation.type === 'edit' && (
+              <label className="col-span-2 block text-xs text-gray-400">
+                Feather: {params.feather ?? 0}px
+                <input
+                  type="range"
+                  min={0}
+                  max={64}
+                  value={params.feather ?? 0}
+                  onChange={(e) => setParams({ ...params, feather: Number(e.target.value) })}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="secondary"
+            className="w-full"
+            onClick={() => onRerun(image, params)}
+            isLoading={isRunning}
+            disabled={!params.prompt.trim()}
+          >
+            <Play size={14} className="mr-1.5" />
+            Re-run as new version
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
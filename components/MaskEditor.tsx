@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, Lasso, Undo2, Redo2, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+
+interface MaskEditorProps {
+  image: string;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  // Called after every finished stroke with the mask (opaque where painted), or null when empty
+  onMaskChange: (mask: string | null) => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const MAX_HISTORY = 30;
+const MASK_COLOR = '#ef4444';
+
+const TOOLS: { id: MaskTool; label: string; icon: typeof Brush }[] = [
+  { id: 'brush', label: 'Brush', icon: Brush },
+  { id: 'eraser', label: 'Eraser', icon: Eraser },
+  { id: 'lasso', label: 'Lasso', icon: Lasso },
+];
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, feather, onFeatherChange, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lassoRef = useRef<{ x: number; y: number }[]>([]);
+  // Undo history of mask snapshots; historyIndex points at the current state
+  const historyRef = useRef<ImageData[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(0);
+  const [historyLength, setHistoryLength] = useState(1);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(48);
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  // Size the canvas to the image's natural resolution so the mask lines up pixel for pixel
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      const ctx = getContext();
+      if (!canvas || !ctx) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      historyRef.current = [ctx.getImageData(0, 0, canvas.width, canvas.height)];
+      setHistoryIndex(0);
+      setHistoryLength(1);
+      onMaskChange(null);
+    };
+    img.src = image;
+  }, [image]);
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let empty = true;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) { empty = false; break; }
+    }
+    onMaskChange(empty ? null : canvas.toDataURL('image/png'));
+  };
+
+  const pushHistory = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const history = historyRef.current.slice(0, historyIndex + 1);
+    history.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (history.length > MAX_HISTORY) history.shift();
+    historyRef.current = history;
+    setHistoryIndex(history.length - 1);
+    setHistoryLength(history.length);
+    emitMask();
+  };
+
+  const restoreHistory = (index: number) => {
+    const ctx = getContext();
+    const snapshot = historyRef.current[index];
+    if (!ctx || !snapshot) return;
+    ctx.putImageData(snapshot, 0, 0);
+    setHistoryIndex(index);
+    emitMask();
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  // Brush size is in screen pixels, so it feels the same regardless of image resolution
+  const canvasBrushSize = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return brushSize;
+    return brushSize * canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = canvasBrushSize();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      lassoRef.current = [point];
+    } else {
+      lastPointRef.current = null;
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      const ctx = getContext();
+      const last = lassoRef.current[lassoRef.current.length - 1];
+      lassoRef.current.push(point);
+      // Draw the outline as feedback; it is replaced by the filled shape on release
+      if (ctx && last) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineWidth = 2 * canvasBrushSize() / brushSize;
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+      }
+    } else {
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (tool === 'lasso') {
+      const ctx = getContext();
+      const points = lassoRef.current;
+      lassoRef.current = [];
+      if (!ctx) return;
+      ctx.putImageData(historyRef.current[historyIndex], 0, 0);
+      if (points.length > 2) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+    lastPointRef.current = null;
+    pushHistory();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    pushHistory();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <Button key={id} size="sm" variant={tool === id ? 'primary' : 'secondary'} onClick={() => setTool(id)} title={label}>
+            <Icon size={16} className="mr-1.5" />
+            {label}
+          </Button>
+        ))}
+        <div className="w-px h-6 bg-gray-700 mx-1" />
+        <Button size="sm" variant="ghost" onClick={() => restoreHistory(historyIndex - 1)} disabled={historyIndex === 0} title="Undo">
+          <Undo2 size={16} />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => restoreHistory(historyIndex + 1)} disabled={historyIndex >= historyLength - 1} title="Redo">
+          <Redo2 size={16} />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleClear} title="Clear mask">
+          <Trash2 size={16} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-xs text-gray-400">
+          Brush Size: {brushSize}px
+          <input
+            type="range"
+            min={4}
+            max={200}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-full accent-indigo-500 mt-1"
+            disabled={tool === 'lasso'}
+          />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Edge Feather: {feather}px
+          <input
+            type="range"
+            min={0}
+            max={64}
+            value={feather}
+            onChange={(e) => onFeatherChange(Number(e.target.value))}
+            className="w-full accent-indigo-500 mt-1"
+          />
+        </label>
+      </div>
+
+      <div className="relative rounded-xl overflow-hidden border border-gray-800 bg-gray-900">
+        <img src={image} alt="Source to edit" className="w-full h-auto block select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+      <p className="text-xs text-gray-500">Paint over the area to change. Only the masked region is replaced in the result.</p>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { getFocusable } from '../services/shortcuts';
+
+interface ModalDialogProps {
+  label: string;
+  onClose: () => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLDivElement>) => void; // Keys other than Escape and Tab
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Full-screen modal with dialog semantics. It takes focus when it opens, keeps
+ * Tab inside itself, closes on Escape and gives focus back to whatever had it
+ * before.
+ */
+export const ModalDialog: React.FC<ModalDialogProps> = ({ label, onClose, onKeyDown, className, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    ref.current?.focus();
+    return () => previous?.focus?.();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      // A modal opened over another one closes alone
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key === 'Tab') {
+      const focusable = getFocusable(ref.current!);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      if (e.shiftKey && (active === first || active === ref.current)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && active === last) {
+        e.preventDefault();
+        first.focus();
+      }
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      tabIndex={-1}
+      className={`outline-none ${className ?? ''}`}
+      onKeyDown={handleKeyDown}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Save, Trash2, Braces, Eye } from 'lucide-react';
+import { Button } from './Button';
+import { PromptOptions, PromptTemplate } from '../types';
+import { COMMON_VARIABLES, STYLE_PRESETS, createTemplate, extractVariables } from '../services/promptTemplates';
+
+interface PromptComposerProps {
+  prompt: string; // Template text, possibly with {{variables}}
+  onPromptChange: (prompt: string) => void;
+  options: PromptOptions;
+  onOptionsChange: (options: PromptOptions) => void;
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  preview: string; // Final prompt as it will be sent
+  previewLabel?: string;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500";
+
+/**
+ * Template tools shown under the prompt box: saved templates, fields for the
+ * prompt's {{variables}}, a style preset, an avoid list and the final prompt.
+ */
+export const PromptComposer: React.FC<PromptComposerProps> = ({
+  prompt,
+  onPromptChange,
+  options,
+  onOptionsChange,
+  templates,
+  onTemplatesChange,
+  preview,
+  previewLabel,
+}) => {
+  const [activeTemplateId, setActiveTemplateId] = useState('');
+  const [saveName, setSaveName] = useState<string | null>(null);
+
+  const variables = extractVariables(prompt);
+  const activeTemplate = templates.find(t => t.id === activeTemplateId);
+
+  const handleLoad = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setActiveTemplateId(id);
+    if (!template) return;
+    onPromptChange(template.text);
+    onOptionsChange({ ...options, negativePrompt: template.negativePrompt ?? '' });
+  };
+
+  // Saving under an existing name updates that template
+  const handleSave = () => {
+    const name = saveName?.trim();
+    if (!name) return;
+    const existing = templates.find(t => t.name.toLowerCase() === name.toLowerCase());
+    const saved = existing
+      ? { ...existing, text: prompt, negativePrompt: options.negativePrompt.trim() || undefined }
+      : createTemplate(name, prompt, options.negativePrompt);
+    onTemplatesChange(existing ? templates.map(t => t.id === existing.id ? saved : t) : [...templates, saved]);
+    setActiveTemplateId(saved.id);
+    setSaveName(null);
+  };
+
+  const handleDelete = () => {
+    onTemplatesChange(templates.filter(t => t.id !== activeTemplateId));
+    setActiveTemplateId('');
+  };
+
+  const insertVariable = (name: string) => {
+    const separator = prompt && !/\s$/.test(prompt) ? ' ' : '';
+    onPromptChange(`${prompt}${separator}{{${name}}}`);
+  };
+
+  const setVariable = (name: string, value: string) =>
+    onOptionsChange({ ...options, variables: { ...options.variables, [name]: value } });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={activeTemplateId}
+          onChange={(e) => handleLoad(e.target.value)}
+          className={`${inputClass} flex-1`}
+          aria-label="Prompt template"
+        >
+          <option value="">Load a template...</option>
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setSaveName(activeTemplate?.name ?? '')}
+          disabled={!prompt.trim()}
+          title="Save as template"
+          aria-label="Save as template"
+        >
+          <Save size={16} />
+        </Button>
+        {activeTemplate && (
+          <Button size="sm" variant="ghost" onClick={handleDelete} title="Delete template" aria-label="Delete template">
+            <Trash2 size={16} />
+          </Button>
+        )}
+      </div>
+
+      {saveName !== null && (
+        <div className="flex gap-2">
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Template name"
+            className={`${inputClass} flex-1`}
+            aria-label="Template name"
+            autoFocus
+          />
+          <Button size="sm" onClick={handleSave} disabled={!saveName.trim()}>Save</Button>
+          <Button size="sm" variant="ghost" onClick={() => setSaveName(null)}>Cancel</Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500">
+        <Braces size={14} />
+        Insert
+        {COMMON_VARIABLES.map(name => (
+          <button
+            key={name}
+            onClick={() => insertVariable(name)}
+            className="px-2 py-0.5 rounded bg-gray-800 text-gray-300 hover:text-white hover:bg-gray-700 font-mono"
+          >
+            {`{{${name}}}`}
+          </button>
+        ))}
+      </div>
+
+      {variables.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {variables.map(name => (
+            <div key={name}>
+              <label className="block text-xs text-gray-400 mb-1 capitalize">{name}</label>
+              <input
+                value={options.variables[name] ?? ''}
+                onChange={(e) => setVariable(name, e.target.value)}
+                className={inputClass}
+                aria-label={`Value for ${name}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Style</label>
+          <select
+            value={options.styleId}
+            onChange={(e) => onOptionsChange({ ...options, styleId: e.target.value })}
+            className={inputClass}
+            aria-label="Style preset"
+          >
+            {STYLE_PRESETS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Avoid</label>
+          <input
+            value={options.negativePrompt}
+            onChange={(e) => onOptionsChange({ ...options, negativePrompt: e.target.value })}
+            placeholder="text, watermark, ..."
+            className={inputClass}
+            aria-label="Avoid (negative prompt)"
+          />
+        </div>
+      </div>
+
+      {preview && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-gray-400 hover:text-white flex items-center gap-1.5">
+            <Eye size={14} />
+            Final prompt{previewLabel && ` (${previewLabel})`}
+          </summary>
+          <p className="mt-2 p-2 bg-gray-950 border border-gray-800 rounded-lg text-gray-300 whitespace-pre-wrap">
+            {preview}
+          </p>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { readImageFile } from '../services/imageFormat';
+
+interface ReferenceTrayProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  disabled?: boolean;
+}
+
+export const MAX_REFERENCES = 6;
+
+const ROLES: { value: ReferenceRole; label: string }[] = [
+  { value: 'subject', label: 'Subject' },
+  { value: 'style', label: 'Style' },
+  { value: 'background', label: 'Background' },
+  { value: 'product', label: 'Product' },
+];
+
+export const ReferenceTray: React.FC<ReferenceTrayProps> = ({ references, onChange, disabled }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_REFERENCES - references.length);
+    e.target.value = '';
+    setError(null);
+    const added: ReferenceImage[] = [];
+    for (const file of files) {
+      try {
+        const { dataUrl } = await readImageFile(file);
+        added.push({ id: crypto.randomUUID(), data: dataUrl, role: 'subject' });
+      } catch (err: any) {
+        setError(err.message);
+      }
+    }
+    onChange([...references, ...added]);
+  };
+
+  const updateRole = (id: string, role: ReferenceRole) => {
+    onChange(references.map(ref => ref.id === id ? { ...ref, role } : ref));
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-400 mb-2">
+        Reference Images <span className="text-gray-600">({references.length}/{MAX_REFERENCES})</span>
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {references.map(ref => (
+          <div key={ref.id} className="relative group">
+            <img src={ref.data} alt={`${ref.role} reference`} className="w-full aspect-square object-cover rounded-lg border border-gray-700" />
+            <button
+              onClick={() => onChange(references.filter(r => r.id !== ref.id))}
+              disabled={disabled}
+              className="absolute top-1 right-1 p-0.5 rounded bg-black/70 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove reference"
+            >
+              <X size={12} />
+            </button>
+            <select
+              value={ref.role}
+              onChange={(e) => updateRole(ref.id, e.target.value as ReferenceRole)}
+              disabled={disabled}
+              className="mt-1 w-full bg-gray-950 border border-gray-700 rounded p-1 text-xs text-gray-100"
+              aria-label="Reference role"
+            >
+              {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+          </div>
+        ))}
+        {references.length < MAX_REFERENCES && (
+          <label className={`flex flex-col items-center justify-center aspect-square border-2 border-dashed border-gray-700 rounded-lg text-gray-500 transition-colors ${disabled ? 'opacity-50' : 'cursor-pointer hover:border-gray-500 hover:text-gray-300'}`}>
+            <Plus size={20} />
+            <span className="text-xs mt-1">Add</span>
+            <input
+              type="file"
+              accept="image/*,.heic,.heif"
+              multiple
+              onChange={handleAdd}
+              disabled={disabled}
+              className="hidden"
+            />
+          </label>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { MessageSquare, Send, ChevronLeft, ChevronRight, GitBranch } from 'lucide-react';
+import { Button } from './Button';
+import { ImageResult } from '../types';
+import { getBranches, getRefinementThread, hasRefinements, latestTurn } from '../services/refinement';
+
+interface RefinementChatProps {
+  image: ImageResult;
+  library: ImageResult[];
+  isRunning: boolean;
+  onSelect: (image: ImageResult) => void;
+  onSend: (instruction: string) => void;
+}
+
+/**
+ * Conversation view of an image's refinements. Each instruction is sent with
+ * the earlier turns as context and its result becomes the new head; sending
+ * from an earlier turn starts a branch, and branches can be switched per turn.
+ */
+export const RefinementChat: React.FC<RefinementChatProps> = ({ image, library, isRunning, onSelect, onSend }) => {
+  const [instruction, setInstruction] = useState('');
+  const { base, turns } = useMemo(() => getRefinementThread(image, library), [image, library]);
+  const willBranch = hasRefinements(image, library);
+
+  const handleSend = () => {
+    const text = instruction.trim();
+    if (!text || isRunning) return;
+    onSend(text);
+    setInstruction('');
+  };
+
+  const thumbnail = (turnImage: ImageResult, label: string) => (
+    <button
+      onClick={() => onSelect(turnImage)}
+      className={`block rounded-lg overflow-hidden transition-shadow ${turnImage.id === image.id ? 'ring-2 ring-indigo-500' : 'hover:ring-1 hover:ring-gray-500'}`}
+      aria-label={label}
+      aria-current={turnImage.id === image.id}
+    >
+      <img src={turnImage.data} alt="" className="w-24 h-24 object-cover" />
+    </button>
+  );
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-800">
+      <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+        <MessageSquare size={16} />
+        Refine
+      </h4>
+
+      {turns.length > 0 && (
+        <ol className="space-y-2 max-h-72 overflow-y-auto pr-1" aria-label="Refinement conversation">
+          {base && (
+            <li className="flex items-center gap-2 text-xs text-gray-500">
+              {thumbnail(base, 'Starting image')}
+              Start
+            </li>
+          )}
+          {turns.map((turn, i) => {
+            const branches = getBranches(turn, library);
+            const position = branches.findIndex(b => b.id === turn.id);
+            const switchTo = (offset: number) => onSelect(latestTurn(branches[position + offset], library));
+            return (
+              <li key={turn.id} className="space-y-1.5">
+                <div className="ml-auto w-fit max-w-[90%] rounded-lg bg-indigo-600/30 border border-indigo-500/40 px-2.5 py-1.5 text-xs text-gray-100">
+                  {turn.operation?.params.prompt ?? turn.prompt}
+                </div>
+                <div className="flex items-end gap-2">
+                  {thumbnail(turn, `Turn ${i + 1}`)}
+                  {branches.length > 1 && (
+                    <div className="flex items-center gap-0.5 text-[10px] text-gray-400">
+                      <button onClick={() => switchTo(-1)} disabled={position === 0} className="p-0.5 hover:text-white disabled:opacity-30" aria-label={`Previous branch of turn ${i + 1}`}>
+                        <ChevronLeft size={12} />
+                      </button>
+                      {position + 1}/{branches.length}
+                      <button onClick={() => switchTo(1)} disabled={position === branches.length - 1} className="p-0.5 hover:text-white disabled:opacity-30" aria-label={`Next branch of turn ${i + 1}`}>
+                        <ChevronRight size={12} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {!base && (
+        <p className="text-xs text-amber-300">The image this conversation started from is no longer in the library.</p>
+      )}
+
+      <div className="space-y-2">
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          rows={2}
+          placeholder={turns.length > 0 ? 'Next change, e.g. "now remove the chair"' : 'Describe a change, e.g. "warmer light"'}
+          className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500 resize-none"
+          aria-label="Refinement instruction"
+          disabled={!base}
+        />
+        {willBranch && (
+          <p className="flex items-center gap-1 text-[10px] text-gray-500">
+            <GitBranch size={10} />
+            Sending from here starts a new branch.
+          </p>
+        )}
+        <Button
+          size="sm"
+          variant="secondary"
+          className="w-full"
+          onClick={handleSend}
+          isLoading={isRunning}
+          disabled={!instruction.trim() || !base}
+        >
+          <Send size={14} className="mr-1.5" />
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
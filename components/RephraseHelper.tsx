@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Check } from 'lucide-react';
+import { Button } from './Button';
+
+interface RephraseHelperProps {
+  prompt: string;
+  reason: string; // Why the prompt was blocked, passed on to the model
+  onSuggest: (prompt: string, reason: string) => Promise<string>;
+  onUse: (prompt: string) => void;
+}
+
+export const RephraseHelper: React.FC<RephraseHelperProps> = ({ prompt, reason, onSuggest, onUse }) => {
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSuggestion(null);
+    setError(null);
+  }, [prompt, reason]);
+
+  const handleSuggest = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSuggestion(await onSuggest(prompt, reason));
+    } catch (err: any) {
+      setError(err.message || "Could not suggest a rephrased prompt");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!suggestion) {
+    return (
+      <div className="space-y-1">
+        <Button size="sm" variant="secondary" onClick={handleSuggest} isLoading={isLoading}>
+          <Sparkles size={14} className="mr-1.5" />
+          Suggest a rephrased prompt
+        </Button>
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-2 bg-gray-950/60 border border-gray-700 rounded-lg">
+      <p className="text-xs text-gray-400">Suggested prompt</p>
+      <p className="text-sm text-gray-100">{suggestion}</p>
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={() => onUse(suggestion)}>
+          <Check size={14} className="mr-1.5" />
+          Use this prompt
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleSuggest} isLoading={isLoading}>
+          Try another
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Maximize2, RefreshCw, AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from './Button';
+import { JobStatusTile } from './JobStatusTile';
+import { ImageResult, AngleRef } from '../types';
+import { JobProgress } from '../services/generationQueue';
+import { aspectRatioValue, justifiedTileStyle } from '../services/aspectRatio';
+
+interface ResultTileProps {
+  image?: ImageResult;
+  angle?: AngleRef;
+  error?: string;
+  modelText?: string; // The model's explanation when it returned text instead of an image
+  progress?: JobProgress; // Present while this tile is being retried or regenerated
+  onView: (image: ImageResult) => void;
+  onRegenerate?: () => void;
+  rowHeight?: number; // Target height of the justified row the tile sits in
+}
+
+const ROW_HEIGHT = 220;
+
+/**
+ * A tile of the results grid, sized to the image's own aspect ratio so nothing
+ * is cropped. Meant to sit in a wrapping flex row (see `justifiedTileStyle`).
+ * Image tiles open through a button over the whole image; the regenerate
+ * button sits beside it rather than inside it.
+ */
+export const ResultTile: React.FC<ResultTileProps> = ({ image, angle, error, modelText, progress, onView, onRegenerate, rowHeight = ROW_HEIGHT }) => {
+  // The decoded size wins over the requested ratio, since models round output dimensions
+  const [naturalRatio, setNaturalRatio] = useState<number | null>(null);
+  const ratio = naturalRatio ?? (image?.aspectRatio ? aspectRatioValue(image.aspectRatio) : 1);
+  const style = justifiedTileStyle(ratio, rowHeight);
+
+  if (progress) {
+    return <JobStatusTile label={angle?.name ?? 'Image'} progress={progress} style={style} />;
+  }
+
+  if (!image) {
+    return (
+      <div style={style} role="listitem" className="bg-red-950/20 rounded-xl border border-red-900/60 border-dashed flex flex-col items-center justify-center p-4 text-center">
+        <AlertTriangle size={28} className="text-red-400 mb-3" />
+        <p className="text-sm font-medium text-gray-200">{angle?.name}</p>
+        <p className="text-xs text-red-300 mt-1 line-clamp-4" title={error}>{error || 'Generation failed'}</p>
+        {modelText && (
+          <p className="text-xs text-gray-400 italic mt-1 line-clamp-3" title={modelText}>“{modelText}”</p>
+        )}
+        {onRegenerate && (
+          <Button size="sm" variant="secondary" className="mt-3" onClick={onRegenerate}>
+            <RotateCcw size={14} className="mr-1.5" />
+            Retry
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={style}
+      role="listitem"
+      className="group relative bg-gray-900 rounded-xl overflow-hidden border border-gray-800 hover:border-indigo-500 transition-all shadow-lg"
+    >
+      <button
+        type="button"
+        aria-label={`${angle?.name ?? 'Image'}: ${image.prompt}`}
+        data-image-id={image.id}
+        className="block w-full h-full rounded-xl cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500"
+        onClick={() => onView(image)}
+      >
+        <img
+          src={image.data}
+          alt={image.prompt}
+          className="w-full h-full object-cover"
+          onLoad={(e) => setNaturalRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+        />
+      </button>
+      {angle && (
+        <span className="absolute top-2 left-2 text-xs bg-black/70 text-white px-2 py-1 rounded pointer-events-none">
+          {angle.name}
+        </span>
+      )}
+      {/* Clicks pass through to the open button, except on the regenerate button */}
+      <div className="absolute inset-0 pointer-events-none bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex flex-col justify-end p-4">
+        <p className="text-white text-sm line-clamp-2 mb-2">{image.prompt}</p>
+        <div className="flex items-center gap-2">
+          <span className="text-xs bg-indigo-600/80 text-white px-2 py-1 rounded">
+            {image.model.includes('flash') ? 'Flash' : 'Pro'}
+          </span>
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              className="text-white hover:text-indigo-300 p-1 pointer-events-auto"
+              title="Regenerate this angle"
+              aria-label={`Regenerate ${angle?.name ?? 'this angle'}`}
+            >
+              <RefreshCw size={14} />
+            </button>
+          )}
+          <Maximize2 size={14} className="text-white ml-auto" />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { ModalDialog } from './ModalDialog';
+import { formatKey, SCOPE_LABELS, SHORTCUTS, ShortcutScope } from '../services/shortcuts';
+
+interface ShortcutSheetProps {
+  onClose: () => void;
+}
+
+const SCOPES: ShortcutScope[] = ['grid', 'viewer', 'global'];
+
+/** Overlay listing every keyboard shortcut, grouped by where it applies. */
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ onClose }) => (
+  <ModalDialog
+    label="Keyboard shortcuts"
+    onClose={onClose}
+    className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-center justify-center p-4"
+  >
+    <div className="absolute inset-0" onClick={onClose} aria-hidden="true" />
+    <div className="relative bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-2xl w-full max-h-[90vh] shadow-2xl overflow-y-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <Keyboard size={20} />
+          Keyboard Shortcuts
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1" aria-label="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {SCOPES.map(scope => (
+          <section key={scope}>
+            <h3 className="text-sm font-semibold text-white mb-2">{SCOPE_LABELS[scope]}</h3>
+            <dl className="space-y-1.5">
+              {SHORTCUTS.filter(s => s.scope === scope).map(shortcut => (
+                <div key={shortcut.action} className="flex items-center justify-between gap-4 text-sm">
+                  <dt className="text-gray-300">{shortcut.label}</dt>
+                  <dd className="flex gap-1">
+                    {shortcut.keys.map(key => (
+                      <kbd key={key} className="min-w-[1.75rem] px-1.5 py-0.5 rounded border border-gray-700 bg-gray-950 text-xs text-gray-200 text-center font-mono">
+                        {formatKey(key)}
+                      </kbd>
+                    ))}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Shortcuts are ignored while typing in a text field.</p>
+    </div>
+  </ModalDialog>
+);
@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Film, Play, Pause, GripVertical, Eye, EyeOff } from 'lucide-react';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import { ImageResult } from '../types';
+import { downloadDataUrl, extensionForMimeType, loadImage } from '../services/imageFormat';
+import {
+  buildTimeline,
+  DEFAULT_TURNAROUND_OPTIONS,
+  drawTurnaroundFrame,
+  exportTurnaround,
+  frameAt,
+  isWebmSupported,
+  moveItem,
+  PlaybackMode,
+  TurnaroundFormat,
+  TurnaroundOptions,
+  TURNAROUND_FORMATS,
+} from '../services/turnaround';
+
+interface TurnaroundDialogProps {
+  images: ImageResult[]; // Angle results, in grid order
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 480;
+
+const WIDTHS = [480, 720, 1080];
+
+/**
+ * Plays the angle results as an animation and exports it as GIF, WebP or
+ * WebM. Frames are reordered by dragging and can be left out of the sequence.
+ */
+export const TurnaroundDialog: React.FC<TurnaroundDialogProps> = ({ images, onClose }) => {
+  const [order, setOrder] = useState<ImageResult[]>(images);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [options, setOptions] = useState<TurnaroundOptions>(DEFAULT_TURNAROUND_OPTIONS);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [loaded, setLoaded] = useState<HTMLImageElement[] | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const exportRef = useRef<AbortController | null>(null);
+
+  const sequence = useMemo(() => order.filter(img => !excluded.has(img.id)), [order, excluded]);
+  const timeline = useMemo(() => buildTimeline(sequence.length, options), [sequence.length, options.frameMs, options.crossfadeMs, options.mode]);
+
+  const update = (changes: Partial<TurnaroundOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(null);
+    Promise.all(sequence.map(img => loadImage(img.data)))
+      .then(loadedImages => { if (!cancelled) setLoaded(loadedImages); })
+      .catch(err => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [sequence]);
+
+  // Plays the same frames the export encodes, so the preview shows the timing exactly
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    // Images of an earlier sequence may still be loaded while the new ones load
+    if (!canvas || !ctx || !loaded || loaded.length === 0 || loaded.length !== sequence.length) return;
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(PREVIEW_WIDTH * loaded[0].naturalHeight / loaded[0].naturalWidth);
+    if (!isPlaying) {
+      drawTurnaroundFrame(ctx, loaded, timeline[0]);
+      return;
+    }
+    const start = performance.now();
+    let handle = requestAnimationFrame(function tick(now) {
+      drawTurnaroundFrame(ctx, loaded, frameAt(timeline, now - start));
+      handle = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [loaded, timeline, isPlaying]);
+
+  // Closing the dialog stops an export that is still running
+  useEffect(() => () => exportRef.current?.abort(), []);
+
+  const toggleExcluded = (id: string) => setExcluded(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) setOrder(prev => moveItem(prev, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    exportRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: timeline.length });
+    try {
+      const blob = await exportTurnaround(
+        sequence.map(img => img.data),
+        options,
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+      const url = URL.createObjectURL(blob);
+      downloadDataUrl(url, `turnaround-${Date.now()}.${extensionForMimeType(options.format)}`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err.message || "Failed to export the turnaround");
+    } finally {
+      exportRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500";
+  const canExport = sequence.length >= 2 && !progress;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Turnaround"
+        className="bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-5xl w-full max-h-[90vh] flex flex-col md:flex-row gap-6 shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="relative flex items-center justify-center bg-gray-950 rounded-lg min-h-[300px] p-2">
+            {sequence.length === 0 ? (
+              <p className="text-sm text-gray-500">Add frames to the sequence to preview it.</p>
+            ) : !loaded ? (
+              <Spinner />
+            ) : null}
+            <canvas
+              ref={canvasRef}
+              className={`max-h-[55vh] max-w-full ${loaded && sequence.length > 0 ? '' : 'hidden'}`}
+              aria-label="Turnaround preview"
+            />
+            {sequence.length > 1 && (
+              <button
+                onClick={() => setIsPlaying(!isPlaying)}
+                className="absolute bottom-3 left-3 p-2 rounded-full bg-black/60 text-white hover:bg-black/80"
+                aria-label={isPlaying ? 'Pause preview' : 'Play preview'}
+              >
+                {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+              </button>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-400 mb-2">Sequence: drag to reorder, click the eye to leave a frame out</p>
+            <ol className="flex gap-2 overflow-x-auto pb-2" aria-label="Frame order">
+              {order.map((img, i) => {
+                const isExcluded = excluded.has(img.id);
+                return (
+                  <li
+                    key={img.id}
+                    draggable
+                    onDragStart={() => setDragIndex(i)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(i)}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`relative shrink-0 w-20 rounded-lg overflow-hidden border cursor-grab ${dragIndex === i ? 'border-indigo-500 opacity-50' : 'border-gray-700'}`}
+                  >
+                    <img src={img.data} alt={img.angle?.name ?? img.prompt} className={`w-20 h-20 object-cover ${isExcluded ? 'opacity-30 grayscale' : ''}`} draggable={false} />
+                    <GripVertical size={14} className="absolute top-1 left-1 text-white/70" />
+                    <button
+                      onClick={() => toggleExcluded(img.id)}
+                      className="absolute top-1 right-1 p-0.5 rounded bg-black/60 text-white hover:bg-black/80"
+                      aria-label={`${isExcluded ? 'Include' : 'Leave out'} ${img.angle?.name ?? `frame ${i + 1}`}`}
+                    >
+                      {isExcluded ? <EyeOff size={12} /> : <Eye size={12} />}
+                    </button>
+                    <span className="block truncate px-1 py-0.5 text-[10px] text-gray-300 bg-gray-950">{img.angle?.name ?? `Frame ${i + 1}`}</span>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </div>
+
+        <div className="w-full md:w-72 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <Film size={20} />
+              Turnaround
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white p-1" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <label className="block text-xs text-gray-400">
+            Playback
+            <select
+              value={options.mode}
+              onChange={(e) => update({ mode: e.target.value as PlaybackMode })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="loop">Loop (turnaround)</option>
+              <option value="pingpong">Back and forth (flipbook)</option>
+            </select>
+          </label>
+
+          <label className="block text-xs text-gray-400">
+            Frame duration: {options.frameMs} ms
+            <input
+              type="range"
+              min={100}
+              max={2000}
+              step={50}
+              value={options.frameMs}
+              onChange={(e) => {
+                const frameMs = Number(e.target.value);
+                update({ frameMs, crossfadeMs: Math.min(options.crossfadeMs, frameMs) });
+              }}
+              className="w-full accent-indigo-500 mt-1"
+            />
+          </label>
+
+          <label className="block text-xs text-gray-400">
+            Crossfade: {options.crossfadeMs === 0 ? 'off' : `${options.crossfadeMs} ms`}
+            <input
+              type="range"
+              min={0}
+              max={options.frameMs}
+              step={50}
+              value={options.crossfadeMs}
+              onChange={(e) => update({ crossfadeMs: Number(e.target.value) })}
+              className="w-full accent-indigo-500 mt-1"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-400">
+              Width
+              <select
+                value={options.width}
+                onChange={(e) => update({ width: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              >
+                {WIDTHS.map(width => <option key={width} value={width}>{width}px</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400">
+              Format
+              <select
+                value={options.format}
+                onChange={(e) => update({ format: e.target.value as TurnaroundFormat })}
+                className={`${inputClass} mt-1`}
+              >
+                {TURNAROUND_FORMATS.map(({ format, label }) => (
+                  <option key={format} value={format} disabled={format === 'video/webm' && !isWebmSupported()}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {options.format === 'video/webm' && (
+            <p className="text-xs text-gray-500">Video is recorded in real time, so exporting takes as long as one cycle of the animation.</p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-1.5 rounded bg-gray-800 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.done / Math.max(1, progress.total) * 100}%` }} />
+              </div>
+              <p className="text-xs text-gray-500">Frame {progress.done} of {progress.total}</p>
+            </div>
+          )}
+
+          <Button onClick={handleExport} isLoading={!!progress} disabled={!canExport} className="w-full">
+            Export {sequence.length} Frame{sequence.length !== 1 ? 's' : ''}
+          </Button>
+          {sequence.length < 2 && (
+            <p className="text-xs text-amber-300">A turnaround needs at least two frames.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Crop, ShieldCheck } from 'lucide-react';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import { AspectRatio } from '../types';
+import { formatBytes } from '../services/imageFormat';
+import {
+  cropForRatio,
+  MAX_DIMENSION_OPTIONS,
+  prepareUpload,
+  PreparedUpload,
+  UploadSource,
+} from '../services/uploadProcessing';
+
+interface UploadDialogProps {
+  source: UploadSource;
+  aspectRatio: AspectRatio;
+  maxDimension: number;
+  onMaxDimensionChange: (maxDimension: number) => void;
+  onConfirm: (prepared: PreparedUpload) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 720;
+const KEY_STEP = 0.02;
+
+/**
+ * Prepares a picked source image before it is used: the image is turned
+ * upright, optionally cropped to the selected aspect ratio, scaled down and
+ * stripped of its metadata.
+ */
+export const UploadDialog: React.FC<UploadDialogProps> = ({
+  source,
+  aspectRatio,
+  maxDimension,
+  onMaxDimensionChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const [preview, setPreview] = useState<PreparedUpload | null>(null);
+  const [prepared, setPrepared] = useState<PreparedUpload | null>(null);
+  const [cropEnabled, setCropEnabled] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: 0.5, y: 0.5 });
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; center: { x: number; y: number } } | null>(null);
+
+  const crop = preview && cropEnabled
+    ? cropForRatio(preview.width, preview.height, aspectRatio, zoom, center)
+    : undefined;
+  const cropKey = crop ? `${crop.x}:${crop.y}:${crop.width}:${crop.height}` : 'none';
+
+  useEffect(() => {
+    let cancelled = false;
+    prepareUpload(source, { maxDimension: PREVIEW_SIZE })
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(err => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  // Re-encode at full size shortly after the crop or size settles, for the size readout
+  useEffect(() => {
+    if (!preview) return;
+    let cancelled = false;
+    setPrepared(null);
+    const timer = setTimeout(() => {
+      prepareUpload(source, { maxDimension, crop })
+        .then(result => { if (!cancelled) { setPrepared(result); setError(null); } })
+        .catch(err => { if (!cancelled) setError(err.message); });
+    }, 200);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [source, preview, maxDimension, cropKey]);
+
+  // Keep the center where the clamped crop actually is, so dragging back from an edge responds at once
+  const settleCenter = () => {
+    if (crop) setCenter({ x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, center };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    setCenter({
+      x: drag.center.x + (e.clientX - drag.pointerX) / frame.width,
+      y: drag.center.y + (e.clientY - drag.pointerY) / frame.height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    settleCenter();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, -KEY_STEP],
+      ArrowDown: [0, KEY_STEP],
+    };
+    const move = moves[e.key];
+    if (!move || !crop) return;
+    e.preventDefault();
+    const x = crop.x + crop.width / 2 + move[0];
+    const y = crop.y + crop.height / 2 + move[1];
+    setCenter({ x, y });
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-label="Prepare source image"
+        className="bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-4xl w-full max-h-[90vh] flex flex-col md:flex-row gap-6 shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-1 flex items-center justify-center bg-gray-950 rounded-lg min-h-[300px] p-2">
+          {preview ? (
+            <div ref={frameRef} className="relative select-none">
+              <img src={preview.dataUrl} alt="Upload preview" className="block max-h-[65vh] max-w-full" draggable={false} />
+              {crop && (
+                <div
+                  role="slider"
+                  tabIndex={0}
+                  aria-label="Crop area"
+                  aria-valuetext={`${Math.round(crop.x * 100)}% from left, ${Math.round(crop.y * 100)}% from top`}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onKeyDown={handleKeyDown}
+                  onKeyUp={settleCenter}
+                  className="absolute border-2 border-white cursor-move touch-none focus:outline-none focus:ring-2 focus:ring-indigo-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : error ? null : (
+            <Spinner />
+          )}
+        </div>
+
+        <div className="w-full md:w-72 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-white">Prepare Image</h2>
+            <button onClick={onCancel} className="text-gray-400 hover:text-white p-1" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 truncate" title={source.name}>{source.name}</p>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={cropEnabled}
+              onChange={(e) => { setCropEnabled(e.target.checked); setZoom(1); setCenter({ x: 0.5, y: 0.5 }); }}
+              className="accent-indigo-500"
+            />
+            <Crop size={14} />
+            Crop to {aspectRatio}
+          </label>
+          {cropEnabled && (
+            <label className="block text-xs text-gray-400">
+              Crop size: {Math.round(zoom * 100)}%
+              <input
+                type="range"
+                min={20}
+                max={100}
+                value={Math.round(zoom * 100)}
+                onChange={(e) => setZoom(Number(e.target.value) / 100)}
+                onPointerUp={settleCenter}
+                className="w-full accent-indigo-500 mt-1"
+              />
+              <span className="block mt-1 text-gray-500">Drag the frame or use the arrow keys to position it.</span>
+            </label>
+          )}
+
+          <label className="block text-xs text-gray-400">
+            Max size
+            <select
+              value={maxDimension}
+              onChange={(e) => onMaxDimensionChange(Number(e.target.value))}
+              className={`${inputClass} mt-1`}
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-gray-500">Original</dt>
+            <dd className="text-gray-300">
+              {formatBytes(source.bytes)}
+              {preview && ` · ${preview.sourceWidth}×${preview.sourceHeight}`}
+            </dd>
+            <dt className="text-gray-500">Prepared</dt>
+            <dd className="text-gray-300">
+              {prepared ? `${formatBytes(prepared.bytes)} · ${prepared.width}×${prepared.height}` : 'Calculating...'}
+            </dd>
+          </dl>
+
+          <p className="flex items-start gap-2 text-xs text-gray-400">
+            <ShieldCheck size={14} className="flex-shrink-0 mt-0.5 text-green-400" />
+            {source.exif?.hasLocation
+              ? 'Camera details and the GPS location are removed.'
+              : 'Camera details and other metadata are removed.'}
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={() => prepared && onConfirm(prepared)} disabled={!prepared}>
+              Use image
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useMemo } from 'react';
+import { X, Wallet, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { BudgetMode, BudgetSettings, ImageSize, ModelPrice, UsageEntry } from '../types';
+import { dailySpend, DEFAULT_PRICES, formatCost, summarizeUsage, totalCost } from '../services/usage';
+
+interface UsageDashboardProps {
+  entries: UsageEntry[];
+  prices: Record<string, ModelPrice>;
+  budget: BudgetSettings;
+  sessionStart: number;
+  onPricesChange: (prices: Record<string, ModelPrice>) => void;
+  onBudgetChange: (budget: BudgetSettings) => void;
+  onNewSession: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const CHART_DAYS = 14;
+
+const OPERATION_LABELS = {
+  generate: 'Generate',
+  edit: 'Angle / edit',
+  upscale: 'Upscale',
+  inpaint: 'Inpaint',
+  refine: 'Refine',
+  rephrase: 'Rephrase',
+};
+
+/** Estimated spend from the usage ledger, the session budget and the price table. */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({
+  entries,
+  prices,
+  budget,
+  sessionStart,
+  onPricesChange,
+  onBudgetChange,
+  onNewSession,
+  onClear,
+  onClose,
+}) => {
+  const sessionCost = totalCost(entries, prices, sessionStart);
+  const allTimeCost = totalCost(entries, prices);
+  const days = useMemo(() => dailySpend(entries, prices, CHART_DAYS), [entries, prices]);
+  const rows = useMemo(() => summarizeUsage(entries, prices), [entries, prices]);
+  const peak = Math.max(...days.map(d => d.cost), 0);
+  const usedShare = budget.limit ? Math.min(1, sessionCost / budget.limit) : 0;
+
+  // Models that were used but have no price yet can be priced too
+  const pricedModels = [...new Set([...Object.keys(prices), ...entries.map(e => e.model)])];
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, imageTokens: { [ImageSize.SIZE_1K]: 0 } };
+    onPricesChange({ ...prices, [model]: { ...current, ...changes } });
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Usage"
+        className="bg-gray-900 border border-gray-800 rounded-xl p-6 max-w-4xl w-full max-h-[90vh] space-y-6 shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Wallet size={20} />
+            Usage
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1" aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-4 rounded-lg bg-gray-950 border border-gray-800">
+            <p className="text-xs text-gray-500">This session</p>
+            <p className="text-2xl font-semibold text-white">{formatCost(sessionCost)}</p>
+            {budget.limit !== null && (
+              <>
+                <div className="h-1.5 mt-2 rounded bg-gray-800 overflow-hidden">
+                  <div className={`h-full ${usedShare >= 1 ? 'bg-red-500' : usedShare >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${usedShare * 100}%` }} />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">of {formatCost(budget.limit)} budget</p>
+              </>
+            )}
+          </div>
+          <div className="p-4 rounded-lg bg-gray-950 border border-gray-800">
+            <p className="text-xs text-gray-500">All time</p>
+            <p className="text-2xl font-semibold text-white">{formatCost(allTimeCost)}</p>
+            <p className="text-xs text-gray-500 mt-1">{entries.length} call{entries.length !== 1 ? 's' : ''}</p>
+          </div>
+          <div className="p-4 rounded-lg bg-gray-950 border border-gray-800 space-y-2">
+            <label className="block text-xs text-gray-400">
+              Session budget (USD)
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budget.limit ?? ''}
+                placeholder="No limit"
+                onChange={(e) => onBudgetChange({ ...budget, limit: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              When a run would exceed it
+              <select
+                value={budget.mode}
+                onChange={(e) => onBudgetChange({ ...budget, mode: e.target.value as BudgetMode })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="warn">Warn and ask</option>
+                <option value="block">Block the run</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-white mb-2">Estimated spend, last {CHART_DAYS} days</h3>
+          <div className="flex items-end gap-1 h-32 p-2 rounded-lg bg-gray-950 border border-gray-800">
+            {days.map(({ day, cost, calls }) => (
+              <div key={day} className="flex-1 h-full flex flex-col justify-end" title={`${day}: ${formatCost(cost)} (${calls} calls)`}>
+                <div className="bg-indigo-500 rounded-t min-h-[1px]" style={{ height: `${peak > 0 ? cost / peak * 100 : 0}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span>{days[0].day}</span>
+            <span>{days[days.length - 1].day}</span>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-white mb-2">By model, operation and size</h3>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-1 font-normal">Model</th>
+                  <th className="py-1 font-normal">Operation</th>
+                  <th className="py-1 font-normal">Size</th>
+                  <th className="py-1 font-normal text-right">Calls</th>
+                  <th className="py-1 font-normal text-right">Tokens in / out</th>
+                  <th className="py-1 font-normal text-right">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {rows.map(row => (
+                  <tr key={`${row.model}|${row.operation}|${row.size ?? ''}`} className="border-t border-gray-800">
+                    <td className="py-1 font-mono">{row.model}</td>
+                    <td className="py-1">{OPERATION_LABELS[row.operation]}</td>
+                    <td className="py-1">{row.size ?? '—'}</td>
+                    <td className="py-1 text-right">{row.calls}{row.failed > 0 && <span className="text-red-400"> ({row.failed} failed)</span>}</td>
+                    <td className="py-1 text-right">{row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-white">Prices (USD per 1M tokens)</h3>
+            <button onClick={() => onPricesChange(DEFAULT_PRICES)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white">
+              <RotateCcw size={12} />
+              Reset
+            </button>
+          </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-[10px] text-gray-500">
+              <span>Model</span>
+              <span>Input</span>
+              <span>Output</span>
+            </div>
+            {pricedModels.map(model => (
+              <div key={model} className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center">
+                <span className="text-xs text-gray-300 font-mono truncate" title={model}>{model}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={prices[model]?.inputPerMillion ?? 0}
+                  onChange={(e) => updatePrice(model, { inputPerMillion: Math.max(0, Number(e.target.value)) })}
+                  className={inputClass}
+                  aria-label={`${model} input price`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={prices[model]?.outputPerMillion ?? 0}
+                  onChange={(e) => updatePrice(model, { outputPerMillion: Math.max(0, Number(e.target.value)) })}
+                  className={inputClass}
+                  aria-label={`${model} output price`}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 mt-2">Costs are estimates from the token counts the API reports. Check your billing console for actual charges.</p>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="secondary" size="sm" onClick={onNewSession}>
+            <RotateCcw size={14} className="mr-1.5" />
+            New session
+          </Button>
+          <Button variant="danger" size="sm" onClick={onClear} disabled={entries.length === 0}>
+            <Trash2 size={14} className="mr-1.5" />
+            Clear ledger
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
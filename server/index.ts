@@ -0,0 +1,33 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+
+// Same files the Vite build reads. Earlier files win, and variables already set in the environment win over both.
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+// geminiService reads the key under the name the browser build inlines it as
+process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+// Imported after the environment is loaded, since services/config.ts reads it on import
+const { config } = await import('../services/config');
+const { geminiProvider } = await import('../services/geminiService');
+const { createMockProvider } = await import('../services/mockProvider');
+const { createProxyHandler, DEFAULT_RATE_LIMIT } = await import('./proxy');
+
+const useMock = process.env.PROXY_UPSTREAM === 'mock';
+if (!useMock && !process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or set PROXY_UPSTREAM=mock to run against the offline mock.');
+  process.exit(1);
+}
+
+const port = Number(process.env.PROXY_PORT || 8787);
+const handler = createProxyHandler({
+  upstream: useMock ? createMockProvider(config.mock) : geminiProvider,
+  rateLimit: { limit: Number(process.env.PROXY_RATE_LIMIT || DEFAULT_RATE_LIMIT.limit), windowMs: DEFAULT_RATE_LIMIT.windowMs },
+  trustProxy: process.env.PROXY_TRUST_FORWARDED === 'true',
+  allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN || undefined,
+});
+
+createServer(handler).listen(port, () => {
+  console.log(`API proxy listening on http://localhost:${port} (upstream: ${useMock ? 'mock' : 'gemini'})`);
+});
@@ -0,0 +1,168 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createProxyHandler, createRateLimiter, ProxyOptions } from './proxy';
+import { createProxyProvider } from '../services/proxyProvider';
+import { GenerationError, SafetyBlockError } from '../services/errors';
+import type { ImageProvider } from '../services/imageProvider';
+
+const image = { data: 'data:image/png;base64,AAAA', mimeType: 'image/png' };
+
+const stubUpstream = (overrides: Partial<ImageProvider> = {}): ImageProvider => ({
+  id: 'stub',
+  models: { generate: 'stub-pro', edit: 'stub-flash', upscale: 'stub-pro', text: 'stub-text' },
+  requiresApiKey: false,
+  generate: vi.fn(async () => image),
+  edit: vi.fn(async () => image),
+  upscale: vi.fn(async () => image),
+  inpaint: vi.fn(async () => image),
+  refine: vi.fn(async () => image),
+  rephrase: vi.fn(async () => ({ text: 'a calmer prompt', usage: { inputTokens: 80, outputTokens: 12 } })),
+  ...overrides,
+});
+
+let server: Server | undefined;
+
+// Serves the proxy on a free local port and returns its base URL
+const startProxy = async (options: Partial<ProxyOptions> = {}) => {
+  const log = vi.fn();
+  server = createServer(createProxyHandler({ upstream: stubUpstream(), log, ...options }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return { baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, log };
+};
+
+afterEach(async () => {
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise(resolve => server!.close(resolve));
+  server = undefined;
+});
+
+describe('createProxyHandler', () => {
+  it('forwards requests to the upstream and returns its result', async () => {
+    const upstream = stubUpstream();
+    const { baseUrl } = await startProxy({ upstream });
+
+    const result = await createProxyProvider(baseUrl).generate({ prompt: 'a red chair', seed: 7 });
+
+    expect(result).toEqual(image);
+    expect(upstream.generate).toHaveBeenCalledWith({ prompt: 'a red chair', seed: 7 }, expect.any(AbortSignal));
+  });
+
+  it('returns rephrased prompts with their token usage', async () => {
+    const upstream = stubUpstream();
+    const { baseUrl } = await startProxy({ upstream });
+
+    await expect(createProxyProvider(baseUrl).rephrase('a fight', 'SAFETY')).resolves.toEqual({ text: 'a calmer prompt', usage: { inputTokens: 80, outputTokens: 12 } });
+    expect(upstream.rephrase).toHaveBeenCalledWith('a fight', 'SAFETY', expect.any(AbortSignal));
+  });
+
+  it('passes upstream errors back as the same typed errors', async () => {
+    const upstream = stubUpstream({
+      edit: vi.fn(async () => { throw new SafetyBlockError('IMAGE_SAFETY', ['HARM_CATEGORY_DANGEROUS_CONTENT'], 'I cannot'); }),
+      upscale: vi.fn(async () => { throw Object.assign(new Error('RESOURCE_EXHAUSTED'), { status: 429 }); }),
+    });
+    const { baseUrl } = await startProxy({ upstream });
+    const provider = createProxyProvider(baseUrl);
+
+    const safety = await provider.edit({ image: image.data, prompt: 'x' }).catch(e => e);
+    expect(safety).toBeInstanceOf(SafetyBlockError);
+    expect(safety.finishReason).toBe('IMAGE_SAFETY');
+    expect(safety.blockedCategories).toEqual(['HARM_CATEGORY_DANGEROUS_CONTENT']);
+    expect(safety.modelText).toBe('I cannot');
+
+    const quota = await provider.upscale({ image: image.data, prompt: 'x' }).catch(e => e);
+    expect(quota).toBeInstanceOf(GenerationError);
+    expect(quota.kind).toBe('quota');
+    expect(quota.status).toBe(429);
+  });
+
+  it('limits requests per client and says when to retry', async () => {
+    const { baseUrl } = await startProxy({ rateLimit: { limit: 2, windowMs: 60_000 } });
+    const provider = createProxyProvider(baseUrl);
+
+    await provider.generate({ prompt: 'one' });
+    await provider.generate({ prompt: 'two' });
+    const response = await fetch(`${baseUrl}/api/generate`, { method: 'POST', body: JSON.stringify({ prompt: 'three' }) });
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await response.json()).error.kind).toBe('quota');
+  });
+
+  it('logs one line per request without the prompt', async () => {
+    const { baseUrl, log } = await startProxy({
+      upstream: stubUpstream({ generate: vi.fn(async () => { throw new SafetyBlockError('SAFETY'); }) }),
+    });
+
+    await createProxyProvider(baseUrl).generate({ prompt: 'secret prompt' }).catch(() => {});
+    await vi.waitFor(() => expect(log).toHaveBeenCalledTimes(1));
+
+    const line: string = log.mock.calls[0][0];
+    expect(line).toMatch(/ POST \/api\/generate 422 \d+ms safety$/);
+    expect(line).not.toContain('secret');
+  });
+
+  it('rejects unknown endpoints, wrong methods and bad bodies', async () => {
+    const { baseUrl } = await startProxy();
+
+    expect((await fetch(`${baseUrl}/api/delete`, { method: 'POST' })).status).toBe(404);
+    const get = await fetch(`${baseUrl}/api/generate`);
+    expect(get.status).toBe(405);
+    expect(get.headers.get('Allow')).toBe('POST');
+    expect((await fetch(`${baseUrl}/api/generate`, { method: 'POST', body: 'not json' })).status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/generate`, { method: 'POST', body: '{}' })).status).toBe(400);
+  });
+
+  it('rejects bodies without the fields their endpoint needs', async () => {
+    const upstream = stubUpstream();
+    const { baseUrl } = await startProxy({ upstream });
+    const post = (path: string, body: unknown) => fetch(`${baseUrl}/api/${path}`, { method: 'POST', body: JSON.stringify(body) });
+
+    const edit = await post('edit', { prompt: 'x' });
+    expect(edit.status).toBe(400);
+    expect((await edit.json()).error.message).toBe('The request needs image.');
+    expect((await post('inpaint', { prompt: 'x', image: image.data })).status).toBe(400);
+    expect((await post('refine', { prompt: 'x', image: image.data, turns: 'none' })).status).toBe(400);
+    expect((await post('rephrase', { prompt: 'x' })).status).toBe(400);
+    expect((await post('generate', ['x'])).status).toBe(400);
+    expect(upstream.edit).not.toHaveBeenCalled();
+    expect(upstream.inpaint).not.toHaveBeenCalled();
+    expect(upstream.refine).not.toHaveBeenCalled();
+    expect(upstream.rephrase).not.toHaveBeenCalled();
+  });
+
+  it('rejects bodies over the size limit', async () => {
+    const { baseUrl } = await startProxy({ maxBodyBytes: 1024 });
+
+    const response = await fetch(`${baseUrl}/api/edit`, {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'x', image: 'A'.repeat(4096) }),
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('reports its upstream on the health endpoint', async () => {
+    const { baseUrl } = await startProxy();
+
+    const response = await fetch(`${baseUrl}/api/health`);
+
+    expect(await response.json()).toEqual({ ok: true, upstream: 'stub' });
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('starts a new window once the old one has passed', () => {
+    let time = 0;
+    const check = createRateLimiter({ limit: 1, windowMs: 1000 }, () => time);
+
+    expect(check('a')).toBe(0);
+    time = 400;
+    expect(check('a')).toBe(600);
+    expect(check('b')).toBe(0);
+    time = 1000;
+    expect(check('a')).toBe(0);
+  });
+});
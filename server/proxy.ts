@@ -0,0 +1,225 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { EditRequest, GenerateRequest, ImageProvider, InpaintRequest, RefineRequest, UpscaleRequest } from '../services/imageProvider';
+import { ErrorPayload, GenerationErrorKind, toErrorPayload } from '../services/errors';
+
+export interface RateLimit {
+  limit: number; // Requests per client per window
+  windowMs: number;
+}
+
+export interface ProxyOptions {
+  upstream: ImageProvider; // The provider that holds the key, or a stub in tests
+  rateLimit?: RateLimit;
+  maxBodyBytes?: number;
+  trustProxy?: boolean; // Identify clients by X-Forwarded-For, when behind a reverse proxy
+  allowedOrigin?: string; // Origin allowed to call from the browser when the app is served elsewhere
+  log?: (line: string) => void;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { limit: 30, windowMs: 60_000 };
+
+// Room for a 4K source image plus reference images, base64-encoded
+const DEFAULT_MAX_BODY_BYTES = 40 * 1024 * 1024;
+
+const HTTP_STATUS: Record<GenerationErrorKind, number> = {
+  auth: 401,
+  quota: 429,
+  safety: 422,
+  'no-image': 502,
+  network: 502,
+  timeout: 504,
+  server: 503,
+  unknown: 500,
+};
+
+type JsonObject = Record<string, unknown>;
+
+type Operation = (upstream: ImageProvider, body: JsonObject, signal: AbortSignal) => Promise<unknown>;
+
+interface RephraseRequest {
+  prompt: string;
+  reason: string;
+}
+
+/**
+ * Checks that a body has the fields its endpoint cannot do without, and
+ * answers 400 naming the missing ones. Optional fields are passed through
+ * for the upstream to use.
+ */
+const requireFields = <T>(strings: (keyof T & string)[], arrays: (keyof T & string)[] = []) =>
+  (body: JsonObject): T => {
+    const missing = [
+      ...strings.filter(field => typeof body[field] !== 'string'),
+      ...arrays.filter(field => !Array.isArray(body[field])),
+    ];
+    if (missing.length > 0) throw new HttpError(400, `The request needs ${missing.join(', ')}.`);
+    return body as T;
+  };
+
+const operation = <T>(
+  validate: (body: JsonObject) => T,
+  call: (upstream: ImageProvider, request: T, signal: AbortSignal) => Promise<unknown>,
+): Operation => (upstream, body, signal) => call(upstream, validate(body), signal);
+
+// One endpoint per provider method; the request body is the provider request
+const OPERATIONS: Record<string, Operation> = {
+  generate: operation(requireFields<GenerateRequest>(['prompt']), (upstream, request, signal) => upstream.generate(request, signal)),
+  edit: operation(requireFields<EditRequest>(['prompt', 'image']), (upstream, request, signal) => upstream.edit(request, signal)),
+  upscale: operation(requireFields<UpscaleRequest>(['prompt', 'image']), (upstream, request, signal) => upstream.upscale(request, signal)),
+  inpaint: operation(requireFields<InpaintRequest>(['prompt', 'image', 'mask']), (upstream, request, signal) => upstream.inpaint(request, signal)),
+  refine: operation(requireFields<RefineRequest>(['prompt', 'image'], ['turns']), (upstream, request, signal) => upstream.refine(request, signal)),
+  rephrase: operation(requireFields<RephraseRequest>(['prompt', 'reason']), (upstream, request, signal) => upstream.rephrase(request.prompt, request.reason, signal)),
+};
+
+// A request the proxy turns away itself, before reaching the upstream
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Fixed-window request counter per client. Returns how long a client has to
+ * wait, or 0 if the request may go ahead.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimit, now = Date.now) => {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (clientId: string): number => {
+    const time = now();
+    // Forget expired windows now and then, so the map does not grow with every client ever seen
+    if (windows.size > 10_000) {
+      windows.forEach((window, id) => { if (time - window.start >= windowMs) windows.delete(id); });
+    }
+    const window = windows.get(clientId);
+    if (!window || time - window.start >= windowMs) {
+      windows.set(clientId, { start: time, count: 1 });
+      return 0;
+    }
+    if (window.count >= limit) return window.start + windowMs - time;
+    window.count++;
+    return 0;
+  };
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Past the limit the rest is drained unread, so the 413 response still reaches the client
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'The request is too large.'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: ErrorPayload, headers?: Record<string, string>) =>
+  sendJson(res, status, { error }, headers);
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Request handler of the API proxy. It serves `POST /api/<operation>` for each
+ * provider method and `GET /api/health`, limits requests per client and logs
+ * one line per request. Prompts and images are never logged.
+ */
+export const createProxyHandler = (options: ProxyOptions) => {
+  const {
+    upstream,
+    rateLimit = DEFAULT_RATE_LIMIT,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    trustProxy = false,
+    allowedOrigin,
+    log = console.log,
+  } = options;
+  const checkRate = createRateLimiter(rateLimit);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const started = Date.now();
+    const clientId = clientIdOf(req, trustProxy);
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    let outcome = '';
+
+    // The upstream call is cancelled when the browser gives up on the request
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+      log(`${new Date(started).toISOString()} ${clientId} ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms${outcome}`);
+    });
+
+    if (allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    try {
+      if (req.method === 'OPTIONS' && allowedOrigin) {
+        res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type' });
+        res.end();
+        return;
+      }
+      if (path === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, upstream: upstream.id });
+        return;
+      }
+
+      const operation = path.startsWith('/api/') ? OPERATIONS[path.slice('/api/'.length)] : undefined;
+      if (!operation) throw new HttpError(404, `No such endpoint: ${path}`);
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+
+      const wait = checkRate(clientId);
+      if (wait > 0) {
+        const seconds = Math.ceil(wait / 1000);
+        throw new HttpError(429, `Too many requests from this client. Try again in ${seconds}s.`, { 'Retry-After': String(seconds) });
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req, maxBodyBytes));
+      } catch (err) {
+        if (err instanceof HttpError) throw err;
+        throw new HttpError(400, 'The request body is not valid JSON.');
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'The request body must be a JSON object.');
+      }
+
+      const result = await operation(upstream, body as JsonObject, controller.signal);
+      sendJson(res, 200, result);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        outcome = ' cancelled';
+        return;
+      }
+      if (err instanceof HttpError) {
+        const kind: GenerationErrorKind = err.status === 429 ? 'quota' : 'unknown';
+        outcome = ` ${kind}`;
+        sendError(res, err.status, { kind, message: err.message, status: err.status }, err.headers);
+        return;
+      }
+      const payload = toErrorPayload(err);
+      outcome = ` ${payload.kind}`;
+      sendError(res, HTTP_STATUS[payload.kind], payload);
+    }
+  };
+};
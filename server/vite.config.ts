@@ -0,0 +1,5 @@
+import { defineConfig } from 'vite';
+
+// The proxy runs under vite-node without the app's config, so nothing is inlined:
+// the key and settings are read from the server's own environment at runtime.
+export default defineConfig({});
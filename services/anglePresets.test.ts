@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { exportAnglePack, parseAnglePacks, DEFAULT_ANGLE_PACK } from './anglePresets';
+
+describe('parseAnglePacks', () => {
+  it('reads back an exported pack', () => {
+    const [pack] = parseAnglePacks(exportAnglePack(DEFAULT_ANGLE_PACK));
+
+    expect(pack.name).toBe(DEFAULT_ANGLE_PACK.name);
+    expect(pack.angles).toEqual(DEFAULT_ANGLE_PACK.angles);
+  });
+
+  it('rejects a file without packs', () => {
+    expect(() => parseAnglePacks('[]')).toThrow('Invalid angle pack: the file contains no packs.');
+  });
+
+  it('names the angle that is missing fields', () => {
+    const json = JSON.stringify({ name: 'Product', angles: [{ name: 'Front', promptSuffix: 'front view' }, { name: 'Back' }] });
+
+    expect(() => parseAnglePacks(json)).toThrow('Invalid angle pack "Product": angle 2 needs a name and promptSuffix.');
+  });
+
+  it('gives repeated and missing angle ids fresh ones', () => {
+    const json = JSON.stringify({
+      name: 'Merged',
+      angles: [
+        { id: 'front', name: 'Front', promptSuffix: 'front view' },
+        { id: 'front', name: 'Front again', promptSuffix: 'front view, closer' },
+        { name: 'Top', promptSuffix: 'top view', enabled: false },
+      ],
+    });
+
+    const ids = parseAnglePacks(json)[0].angles.map(a => a.id);
+
+    expect(ids[0]).toBe('front');
+    expect(new Set(ids).size).toBe(3);
+    expect(parseAnglePacks(json)[0].angles[2].enabled).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { AnglePack, CameraAngle } from "../types";
+
+const PACKS_KEY = 'grid-angle-packs';
+const SELECTED_PACK_KEY = 'grid-selected-angle-pack';
+
+export const DEFAULT_PACK_ID = 'default';
+
+const angle = (name: string, promptSuffix: string): CameraAngle => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  promptSuffix,
+  enabled: true,
+});
+
+// The original seven-angle shot list. Always available and restored if every pack is deleted.
+export const DEFAULT_ANGLE_PACK: AnglePack = {
+  id: DEFAULT_PACK_ID,
+  name: 'Cinematic (Default)',
+  angles: [
+    angle("Low Angle", "viewed from a low camera angle, looking up, dramatic perspective"),
+    angle("High Angle", "viewed from a high camera angle, looking down, bird's eye view"),
+    angle("Side Profile", "viewed from the side profile, cinematic lighting"),
+    angle("Wide Shot", "wide angle shot, showing surrounding context, environmental view"),
+    angle("Close Up", "extreme close up shot, highly detailed texture, macro photography style"),
+    angle("Dutch Angle", "Dutch angle shot, tilted camera horizon, dynamic energy, unease"),
+    angle("Over the Shoulder", "over-the-shoulder shot, narrative perspective, depth of field"),
+  ],
+};
+
+export const loadAnglePacks = (): AnglePack[] => {
+  try {
+    const raw = localStorage.getItem(PACKS_KEY);
+    if (raw) {
+      const packs = parseAnglePacks(raw);
+      if (packs.length > 0) return packs;
+    }
+  } catch (e) {
+    console.error("Failed to load angle packs", e);
+  }
+  return [DEFAULT_ANGLE_PACK];
+};
+
+export const saveAnglePacks = (packs: AnglePack[]): void => {
+  localStorage.setItem(PACKS_KEY, JSON.stringify(packs));
+};
+
+export const loadSelectedPackId = (): string =>
+  localStorage.getItem(SELECTED_PACK_KEY) || DEFAULT_PACK_ID;
+
+export const saveSelectedPackId = (id: string): void => {
+  localStorage.setItem(SELECTED_PACK_KEY, id);
+};
+
+export const createAngle = (): CameraAngle => ({
+  id: crypto.randomUUID(),
+  name: 'New Angle',
+  promptSuffix: '',
+  enabled: true,
+});
+
+export const createPack = (name: string, angles: CameraAngle[] = []): AnglePack => ({
+  id: crypto.randomUUID(),
+  name,
+  angles: angles.map(a => ({ ...a, id: crypto.randomUUID() })),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isAngle = (value: unknown): value is Record<string, unknown> & Pick<CameraAngle, 'name' | 'promptSuffix'> =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.promptSuffix === 'string';
+
+const normalizePack = (value: unknown): AnglePack => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.angles)) {
+    throw new Error("Invalid angle pack: expected a name and an angles array.");
+  }
+  const angles: unknown[] = value.angles;
+  const invalid = angles.findIndex(a => !isAngle(a));
+  if (invalid !== -1) {
+    throw new Error(`Invalid angle pack "${value.name}": angle ${invalid + 1} needs a name and promptSuffix.`);
+  }
+  // Ids key the angle editor and the generation jobs, so repeats in a hand-edited file get fresh ones
+  const seenIds = new Set<string>();
+  const uniqueId = (id: unknown): string => {
+    const unique = typeof id === 'string' && !seenIds.has(id) ? id : crypto.randomUUID();
+    seenIds.add(unique);
+    return unique;
+  };
+  return {
+    id: typeof value.id === 'string' ? value.id : crypto.randomUUID(),
+    name: value.name,
+    angles: angles.filter(isAngle).map(a => ({
+      id: uniqueId(a.id),
+      name: a.name,
+      promptSuffix: a.promptSuffix,
+      enabled: a.enabled !== false,
+    })),
+  };
+};
+
+/**
+ * Parses exported JSON. Accepts either a single pack object or an array of packs.
+ * Throws with a readable message if the shape is wrong.
+ */
+export const parseAnglePacks = (json: string): AnglePack[] => {
+  const data: unknown = JSON.parse(json);
+  const packs: unknown[] = Array.isArray(data) ? data : [data];
+  if (packs.length === 0) throw new Error("Invalid angle pack: the file contains no packs.");
+  return packs.map(normalizePack);
+};
+
+export const exportAnglePack = (pack: AnglePack): string =>
+  JSON.stringify({ name: pack.name, angles: pack.angles }, null, 2);
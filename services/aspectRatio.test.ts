@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { closestAspectRatio, aspectRatioValue, aspectRatioCss, justifiedTileStyle } from './aspectRatio';
+
+describe('closestAspectRatio', () => {
+  it.each([
+    [1024, 1024, '1:1'],
+    [1920, 1080, '16:9'],
+    [1080, 1920, '9:16'],
+    [3000, 2000, '3:2'],
+    [2000, 3000, '2:3'],
+    [1080, 1350, '4:5'],
+    [2560, 1080, '21:9'],
+    [1344, 768, '16:9'],
+  ])('maps %ix%i to %s', (width, height, ratio) => {
+    expect(closestAspectRatio(width, height)).toBe(ratio);
+  });
+});
+
+describe('aspectRatioValue', () => {
+  it('divides width by height', () => {
+    expect(aspectRatioValue('16:9')).toBeCloseTo(1.778, 3);
+    expect(aspectRatioValue('4:5')).toBe(0.8);
+    expect(aspectRatioCss('21:9')).toBe('21 / 9');
+  });
+});
+
+describe('justifiedTileStyle', () => {
+  it('grows tiles in proportion to their ratio around the row height', () => {
+    expect(justifiedTileStyle(1.5, 200)).toMatchObject({ flexGrow: 1.5, flexBasis: 300, aspectRatio: '1.5' });
+  });
+});
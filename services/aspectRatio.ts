@@ -0,0 +1,46 @@
+import { AspectRatio } from "../types";
+
+/** Ratios the image models accept, in the order they are offered in the UI. */
+export const ASPECT_RATIOS: { value: AspectRatio; label: string }[] = [
+  { value: '1:1', label: 'Square (1:1)' },
+  { value: '16:9', label: 'Landscape (16:9)' },
+  { value: '9:16', label: 'Portrait (9:16)' },
+  { value: '4:3', label: 'Standard (4:3)' },
+  { value: '3:4', label: 'Vertical (3:4)' },
+  { value: '3:2', label: 'Photo (3:2)' },
+  { value: '2:3', label: 'Photo portrait (2:3)' },
+  { value: '5:4', label: 'Print (5:4)' },
+  { value: '4:5', label: 'Social portrait (4:5)' },
+  { value: '21:9', label: 'Cinematic (21:9)' },
+];
+
+/** Width divided by height, e.g. 1.78 for 16:9. */
+export const aspectRatioValue = (ratio: AspectRatio): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+/** The ratio as a CSS `aspect-ratio` value. */
+export const aspectRatioCss = (ratio: AspectRatio): string => ratio.replace(':', ' / ');
+
+/**
+ * Picks the supported aspect ratio closest to the given dimensions, so the model
+ * returns an image that maps back onto the original without visible stretching.
+ */
+export const closestAspectRatio = (width: number, height: number): AspectRatio => {
+  const target = Math.log(width / height);
+  const distance = (ratio: AspectRatio) => Math.abs(Math.log(aspectRatioValue(ratio)) - target);
+  return ASPECT_RATIOS.reduce((best, { value }) => distance(value) < distance(best) ? value : best, ASPECT_RATIOS[0].value);
+};
+
+/**
+ * Flex sizing for a tile in a justified row. Tiles grow in proportion to their
+ * ratio, so every tile in a row ends up the same height (about `rowHeight`)
+ * and shows the whole image uncropped.
+ */
+export const justifiedTileStyle = (ratio: number, rowHeight: number) => ({
+  flexGrow: ratio,
+  flexBasis: ratio * rowHeight,
+  aspectRatio: String(ratio),
+  maxWidth: '100%',
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPauseGate, runBatch, filesFromList } from './batch';
+import { GenerationError } from './errors';
+import { BatchItem } from '../types';
+
+const item = (name: string, status: BatchItem['status'] = 'queued'): BatchItem => ({
+  id: name,
+  name,
+  data: 'data:image/png;base64,AAAA',
+  runId: `run-${name}`,
+  status,
+  completed: 0,
+  failed: 0,
+  total: 3,
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createPauseGate', () => {
+  it('holds waiters while paused and releases them on resume', async () => {
+    const gate = createPauseGate();
+    await gate.wait();
+
+    gate.pause();
+    const released = vi.fn();
+    gate.wait().then(released);
+    await flush();
+    expect(released).not.toHaveBeenCalled();
+
+    gate.resume();
+    await flush();
+    expect(released).toHaveBeenCalled();
+  });
+
+  it('rejects a waiter when its signal aborts', async () => {
+    const gate = createPauseGate();
+    const controller = new AbortController();
+    gate.pause();
+
+    const waiting = gate.wait(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('runBatch', () => {
+  const run = (items: BatchItem[], process: (item: BatchItem) => Promise<void>, gate = createPauseGate()) => {
+    const updates: [string, Partial<BatchItem>][] = [];
+    const promise = runBatch(items, {
+      signal: new AbortController().signal,
+      gate,
+      jobsPerItem: 3,
+      process,
+      onUpdate: (id, changes) => updates.push([id, changes]),
+    });
+    return { promise, updates };
+  };
+
+  it('runs sources in order, skipping finished ones and continuing past failures', async () => {
+    const process = vi.fn(async (source: BatchItem) => {
+      if (source.name === 'b.png') throw new GenerationError('no-image', 'No image generated.');
+    });
+    const { promise, updates } = run([item('a.png', 'done'), item('b.png'), item('c.png')], process);
+    await promise;
+
+    expect(process.mock.calls.map(([source]) => source.name)).toEqual(['b.png', 'c.png']);
+    expect(updates.filter(([, changes]) => changes.status !== 'running')).toEqual([
+      ['b.png', { status: 'failed', error: 'No image generated.' }],
+      ['c.png', { status: 'done' }],
+    ]);
+  });
+
+  it('gives sources that ran before a new run id', async () => {
+    const process = vi.fn(async (_source: BatchItem) => {});
+    await run([item('a.png', 'cancelled'), item('b.png')], process).promise;
+
+    expect(process.mock.calls[0][0].runId).not.toBe('run-a.png');
+    expect(process.mock.calls[1][0].runId).toBe('run-b.png');
+  });
+
+  it('resets the progress of a started source to the current job count', async () => {
+    const process = vi.fn(async (_source: BatchItem) => {});
+    const { promise, updates } = run([{ ...item('a.png', 'failed'), completed: 4, failed: 4, total: 5, error: 'Failed' }], process);
+    await promise;
+
+    expect(updates[0][1]).toMatchObject({ status: 'running', completed: 0, failed: 0, total: 3, error: undefined });
+    expect(process.mock.calls[0][0]).toMatchObject({ name: 'a.png', total: 3 });
+  });
+
+  it('stops on an auth error', async () => {
+    const process = vi.fn(async () => { throw new GenerationError('auth', 'Invalid key', { status: 403 }); });
+
+    await expect(run([item('a.png'), item('b.png')], process).promise).rejects.toThrow('Invalid key');
+    expect(process).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits between sources while paused', async () => {
+    const gate = createPauseGate();
+    const process = vi.fn(async (source: BatchItem) => {
+      if (source.name === 'a.png') gate.pause();
+    });
+    const { promise } = run([item('a.png'), item('b.png')], process, gate);
+    await flush();
+
+    expect(process).toHaveBeenCalledTimes(1);
+    gate.resume();
+    await promise;
+    expect(process).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('filesFromList', () => {
+  it('keeps images in natural path order', () => {
+    const file = (name: string, type: string, path = '') =>
+      Object.defineProperty(new File(['x'], name, { type }), 'webkitRelativePath', { value: path });
+    const files = [
+      file('shot-10.jpg', 'image/jpeg', 'catalogue/shot-10.jpg'),
+      file('notes.txt', 'text/plain', 'catalogue/notes.txt'),
+      file('shot-2.heic', '', 'catalogue/shot-2.heic'),
+    ];
+
+    expect(filesFromList(files).map(f => f.path)).toEqual(['catalogue/shot-2.heic', 'catalogue/shot-10.jpg']);
+  });
+});
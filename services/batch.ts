@@ -0,0 +1,150 @@
+import { BatchItem } from "../types";
+import { SUPPORTED_INPUT_TYPES } from "./imageFormat";
+import { isAbortError } from "./generationQueue";
+import { describeFailure, hasErrorKind } from "./errors";
+
+// Formats readImageFile converts, which browsers often report without a MIME type
+const CONVERTIBLE_EXTENSIONS = /\.(heic|heif|avif|gif|png|jpe?g|webp)$/i;
+
+export interface BatchFile {
+  file: File;
+  path: string; // Path inside a dropped folder, or just the file name
+}
+
+export const isImageFile = (file: File): boolean =>
+  SUPPORTED_INPUT_TYPES.includes(file.type) || file.type.startsWith('image/') || CONVERTIBLE_EXTENSIONS.test(file.name);
+
+const byPath = (a: BatchFile, b: BatchFile) => a.path.localeCompare(b.path, undefined, { numeric: true });
+
+/** Image files of a file input, in name order. Folder inputs report the folder path. */
+export const filesFromList = (files: FileList | File[]): BatchFile[] =>
+  Array.from(files)
+    .filter(isImageFile)
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .sort(byPath);
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+
+const readEntry = async (entry: FileSystemEntry, path: string): Promise<BatchFile[]> => {
+  if (isFileEntry(entry)) {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    return [{ file, path: `${path}${file.name}` }];
+  }
+  if (!isDirectoryEntry(entry)) return [];
+  // readEntries returns at most 100 entries per call, so read until it comes back empty
+  const reader = entry.createReader();
+  const children: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map(child => readEntry(child, `${path}${entry.name}/`)));
+  return nested.flat();
+};
+
+/**
+ * Image files of a drop, walking into dropped folders. Falls back to the plain
+ * file list where the entries API is not available.
+ */
+export const filesFromDrop = async (dataTransfer: DataTransfer): Promise<BatchFile[]> => {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => item.webkitGetAsEntry?.() ?? null)
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) return filesFromList(dataTransfer.files);
+  const files = (await Promise.all(entries.map(entry => readEntry(entry, '')))).flat();
+  return files.filter(f => isImageFile(f.file)).sort(byPath);
+};
+
+const abortError = () => new DOMException('The batch was cancelled.', 'AbortError');
+
+/**
+ * Lets a running batch stop between sources. `wait` resolves immediately unless
+ * paused, and rejects if the signal aborts while waiting.
+ */
+export const createPauseGate = () => {
+  let paused = false;
+  let waiting: Array<() => void> = [];
+
+  const wait = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      if (!paused) return resolve();
+      const release = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        waiting = waiting.filter(w => w !== release);
+        reject(abortError());
+      };
+      waiting.push(release);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+  return {
+    get isPaused() { return paused; },
+    pause: () => { paused = true; },
+    resume: () => {
+      paused = false;
+      const released = waiting;
+      waiting = [];
+      released.forEach(release => release());
+    },
+    wait,
+  };
+};
+
+export type PauseGate = ReturnType<typeof createPauseGate>;
+
+export interface BatchRunOptions {
+  signal: AbortSignal;
+  gate: PauseGate;
+  jobsPerItem: number; // Angle jobs each source runs, the `total` of its progress
+  // Runs one source; throws if none of its images could be made
+  process: (item: BatchItem) => Promise<void>;
+  onUpdate: (id: string, changes: Partial<BatchItem>) => void;
+}
+
+/**
+ * Works through the sources one at a time, skipping those already done. A source
+ * that fails is marked and the batch moves on, except for auth errors, which would
+ * fail every remaining source too and are rethrown. Sources that ran before (failed
+ * or cancelled) start over under a new run id.
+ */
+export const runBatch = async (items: BatchItem[], options: BatchRunOptions): Promise<void> => {
+  const { signal, gate, jobsPerItem, process, onUpdate } = options;
+  for (const item of items) {
+    if (item.status === 'done') continue;
+    try {
+      await gate.wait(signal);
+    } catch {
+      return; // Cancelled while paused
+    }
+
+    const runId = item.status === 'queued' ? item.runId : crypto.randomUUID();
+    const changes: Partial<BatchItem> = { runId, status: 'running', completed: 0, failed: 0, total: jobsPerItem, error: undefined };
+    onUpdate(item.id, changes);
+    try {
+      await process({ ...item, ...changes });
+      onUpdate(item.id, { status: signal.aborted ? 'cancelled' : 'done' });
+    } catch (err: any) {
+      if (isAbortError(err) || signal.aborted) {
+        onUpdate(item.id, { status: 'cancelled' });
+        return;
+      }
+      onUpdate(item.id, { status: 'failed', error: describeFailure(err) });
+      if (hasErrorKind(err, 'auth')) throw err;
+    }
+  }
+};
+
+/** Counts for the batch summary line. */
+export const summarizeBatch = (items: BatchItem[]) => ({
+  total: items.length,
+  done: items.filter(i => i.status === 'done').length,
+  failed: items.filter(i => i.status === 'failed').length,
+  remaining: items.filter(i => i.status !== 'done' && i.status !== 'failed').length,
+});
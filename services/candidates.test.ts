@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { planCandidates, MAX_CANDIDATES } from './candidates';
+
+describe('planCandidates', () => {
+  it('counts seeds up from the base seed', () => {
+    const plan = planCandidates(3, 'seed', 100);
+
+    expect(plan).toEqual([
+      { index: 0, count: 3, seed: 100, temperature: undefined },
+      { index: 1, count: 3, seed: 101, temperature: undefined },
+      { index: 2, count: 3, seed: 102, temperature: undefined },
+    ]);
+  });
+
+  it('spreads temperatures across the range', () => {
+    const plan = planCandidates(5, 'seed-temperature', 7);
+
+    expect(plan.map(c => c.temperature)).toEqual([0.5, 0.75, 1, 1.25, 1.5]);
+    expect(planCandidates(1, 'seed-temperature', 7)[0].temperature).toBe(1);
+  });
+
+  it('leaves sampling to the model without variation', () => {
+    const [candidate] = planCandidates(1, 'none');
+
+    expect(candidate.seed).toBeUndefined();
+    expect(candidate.temperature).toBeUndefined();
+  });
+
+  it('clamps the count to 1-8', () => {
+    expect(planCandidates(0, 'seed')).toHaveLength(1);
+    expect(planCandidates(20, 'seed')).toHaveLength(MAX_CANDIDATES);
+  });
+});
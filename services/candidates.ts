@@ -0,0 +1,30 @@
+import { CandidateInfo, CandidateVariation } from "../types";
+
+export const MAX_CANDIDATES = 8;
+
+// Temperatures are spread evenly over this range when temperature variation is on
+export const TEMPERATURE_RANGE: [number, number] = [0.5, 1.5];
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Plans the sampling settings of `count` candidates. Seeds count up from
+ * `baseSeed` so a run can be reproduced; temperatures go from cautious to
+ * adventurous across the candidates.
+ */
+export const planCandidates = (
+  count: number,
+  variation: CandidateVariation,
+  baseSeed: number = randomSeed()
+): CandidateInfo[] => {
+  const total = Math.max(1, Math.min(MAX_CANDIDATES, Math.round(count)));
+  const [minTemp, maxTemp] = TEMPERATURE_RANGE;
+  return Array.from({ length: total }, (_, index) => ({
+    index,
+    count: total,
+    seed: variation === 'none' ? undefined : baseSeed + index,
+    temperature: variation === 'seed-temperature'
+      ? Number((total === 1 ? (minTemp + maxTemp) / 2 : minTemp + (maxTemp - minTemp) * index / (total - 1)).toFixed(2))
+      : undefined,
+  }));
+};
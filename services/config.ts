@@ -0,0 +1,39 @@
+export type ProviderId = 'gemini' | 'mock' | 'proxy';
+
+const PROVIDERS: ProviderId[] = ['gemini', 'mock', 'proxy'];
+
+export interface AppConfig {
+  provider: ProviderId;
+  models: {
+    pro: string; // High-resolution generation and upscaling
+    flash: string; // Fast edits: angle variations and inpainting
+    text: string; // Text-only helpers such as prompt rephrasing
+  };
+  mock: {
+    latencyMs: number;
+    failureRate: number; // 0-1, share of requests that fail with a retryable error
+  };
+  proxy: {
+    url: string; // Base URL of the API proxy; empty means the app's own origin
+  };
+}
+
+// Values are injected at build time by vite.config.ts from .env / .env.local.
+// Empty strings mean "not set" and fall back to the defaults below.
+const env = (value: string | undefined, fallback: string) => value || fallback;
+
+export const config: AppConfig = {
+  provider: PROVIDERS.find(id => id === process.env.IMAGE_PROVIDER) ?? 'gemini',
+  models: {
+    pro: env(process.env.GEMINI_PRO_MODEL, 'gemini-3-pro-image-preview'),
+    flash: env(process.env.GEMINI_FLASH_MODEL, 'gemini-2.5-flash-image'),
+    text: env(process.env.GEMINI_TEXT_MODEL, 'gemini-2.5-flash'),
+  },
+  mock: {
+    latencyMs: Number(env(process.env.MOCK_LATENCY_MS, '800')),
+    failureRate: Number(env(process.env.MOCK_FAILURE_RATE, '0')),
+  },
+  proxy: {
+    url: env(process.env.API_PROXY_URL, '').replace(/\/$/, ''),
+  },
+};
@@ -0,0 +1,97 @@
+import { ExportFormat, loadImage } from "./imageFormat";
+
+export interface ContactSheetTile {
+  src: string;
+  caption: string;
+  subcaption?: string;
+}
+
+export interface ContactSheetOptions {
+  columns: number;
+  gutter: number; // px between tiles and around the edge, at output resolution
+  background: string;
+  textColor: string;
+  showCaptions: boolean;
+  width: number; // Output width in px; height follows from the tile count
+  format: ExportFormat;
+  quality: number; // 0-1, used for lossy formats
+}
+
+export const DEFAULT_CONTACT_SHEET_OPTIONS: ContactSheetOptions = {
+  columns: 4,
+  gutter: 24,
+  background: '#111827',
+  textColor: '#e5e7eb',
+  showCaptions: true,
+  width: 3840,
+  format: 'image/png',
+  quality: 0.92,
+};
+
+// Truncates text with an ellipsis so captions never spill into the next tile
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+/**
+ * Draws the tiles onto one canvas in a grid and returns it as a data URL.
+ * Cells share the aspect ratio of the first tile; other images are letterboxed
+ * inside their cell rather than cropped.
+ */
+export const composeContactSheet = async (
+  tiles: ContactSheetTile[],
+  options: ContactSheetOptions
+): Promise<string> => {
+  if (tiles.length === 0) throw new Error("There are no images to put on the contact sheet.");
+
+  const images = await Promise.all(tiles.map(tile => loadImage(tile.src)));
+  const columns = Math.max(1, Math.min(options.columns, tiles.length));
+  const rows = Math.ceil(tiles.length / columns);
+  const { gutter, width } = options;
+
+  const cellWidth = Math.floor((width - gutter * (columns + 1)) / columns);
+  if (cellWidth <= 0) throw new Error("The gutter is too large for this width and column count.");
+  const cellHeight = Math.round(cellWidth * images[0].naturalHeight / images[0].naturalWidth);
+  const fontSize = Math.max(12, Math.round(cellWidth / 22));
+  const captionHeight = options.showCaptions ? Math.round(fontSize * 3.2) : 0;
+  const rowHeight = cellHeight + captionHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = gutter * (rows + 1) + rowHeight * rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  ctx.fillStyle = options.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+
+  images.forEach((img, i) => {
+    const x = gutter + (i % columns) * (cellWidth + gutter);
+    const y = gutter + Math.floor(i / columns) * (rowHeight + gutter);
+
+    const scale = Math.min(cellWidth / img.naturalWidth, cellHeight / img.naturalHeight);
+    const drawWidth = img.naturalWidth * scale;
+    const drawHeight = img.naturalHeight * scale;
+    ctx.drawImage(img, x + (cellWidth - drawWidth) / 2, y + (cellHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+    if (options.showCaptions) {
+      const { caption, subcaption } = tiles[i];
+      ctx.fillStyle = options.textColor;
+      ctx.textBaseline = 'top';
+      ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+      ctx.fillText(fitText(ctx, caption, cellWidth), x, y + cellHeight + fontSize * 0.5);
+      if (subcaption) {
+        ctx.globalAlpha = 0.65;
+        ctx.font = `${Math.round(fontSize * 0.8)}px system-ui, sans-serif`;
+        ctx.fillText(fitText(ctx, subcaption, cellWidth), x, y + cellHeight + fontSize * 1.8);
+        ctx.globalAlpha = 1;
+      }
+    }
+  });
+
+  return canvas.toDataURL(options.format, options.quality);
+};
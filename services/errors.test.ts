@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { classifyError, GenerationError, SafetyBlockError, hasErrorKind, describeFailure } from './errors';
+import { isRetryableError } from './generationQueue';
+
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it.each([
+    [apiError(401, 'Unauthorized'), 'auth'],
+    [apiError(403, 'PERMISSION_DENIED'), 'auth'],
+    [apiError(404, 'Requested entity was not found.'), 'auth'],
+    [apiError(400, 'API key not valid. Please pass a valid API key.'), 'auth'],
+    [apiError(429, 'RESOURCE_EXHAUSTED'), 'quota'],
+    [apiError(504, 'DEADLINE_EXCEEDED'), 'timeout'],
+    [apiError(503, 'UNAVAILABLE'), 'server'],
+    [apiError(400, 'Invalid argument'), 'unknown'],
+    [new Error('API key must be set when using the Gemini API.'), 'auth'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [Object.assign(new Error('signal timed out'), { name: 'TimeoutError' }), 'timeout'],
+  ])('classifies %s', (err, kind) => {
+    const classified = classifyError(err);
+
+    expect(classified).toBeInstanceOf(GenerationError);
+    expect((classified as GenerationError).kind).toBe(kind);
+    expect(classified.cause).toBe(err);
+  });
+
+  it('keeps the status and message of API errors', () => {
+    const classified = classifyError(apiError(429, 'Quota exceeded for model')) as GenerationError;
+
+    expect(classified.status).toBe(429);
+    expect(classified.message).toBe('Quota exceeded for model');
+  });
+
+  it('returns abort and already classified errors unchanged', () => {
+    const abort = new DOMException('Aborted', 'AbortError');
+    const safety = new SafetyBlockError('SAFETY');
+
+    expect(classifyError(abort)).toBe(abort);
+    expect(classifyError(safety)).toBe(safety);
+  });
+});
+
+describe('GenerationError', () => {
+  it('marks transient kinds as retryable for the queue', () => {
+    expect(isRetryableError(new GenerationError('quota', 'slow down'))).toBe(true);
+    expect(isRetryableError(new GenerationError('server', 'busy'))).toBe(true);
+    expect(isRetryableError(new GenerationError('auth', 'bad key', { status: 403 }))).toBe(false);
+    expect(isRetryableError(new SafetyBlockError('IMAGE_SAFETY'))).toBe(false);
+  });
+
+  it('names the blocked categories of a safety block', () => {
+    const err = new SafetyBlockError('IMAGE_SAFETY', ['HARM_CATEGORY_SEXUALLY_EXPLICIT', 'HARM_CATEGORY_HARASSMENT']);
+
+    expect(err.message).toBe('The request was blocked by safety filters (IMAGE_SAFETY): Sexually explicit, Harassment.');
+    expect(hasErrorKind(err, 'safety')).toBe(true);
+    expect(hasErrorKind(new Error('x'), 'safety')).toBe(false);
+  });
+});
+
+describe('describeFailure', () => {
+  it('summarises safety blocks for a tile', () => {
+    expect(describeFailure(new SafetyBlockError('IMAGE_SAFETY', ['HARM_CATEGORY_DANGEROUS_CONTENT']))).toBe('Blocked: image safety — Dangerous content');
+    expect(describeFailure(new SafetyBlockError('PROHIBITED_CONTENT'))).toBe('Blocked: prohibited content');
+  });
+
+  it('uses the message of other errors', () => {
+    expect(describeFailure(new GenerationError('quota', 'Too many requests'))).toBe('Too many requests');
+    expect(describeFailure(undefined)).toBe('Generation failed');
+  });
+});
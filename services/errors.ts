@@ -0,0 +1,205 @@
+import type { TokenUsage } from '../types';
+
+export type GenerationErrorKind =
+  | 'auth'      // Missing, invalid or unauthorised API key
+  | 'quota'     // Rate limit or quota exhausted
+  | 'safety'    // Prompt or output blocked by safety filters
+  | 'no-image'  // The model answered without an image
+  | 'network'   // The request never reached the service
+  | 'timeout'
+  | 'server'    // The service is down or overloaded
+  | 'unknown';
+
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+/**
+ * A classified provider failure. The UI and the queue branch on `kind` instead
+ * of matching on message text.
+ */
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  modelText?: string; // Text the model answered with instead of an image
+  usage?: TokenUsage; // Tokens billed for the call, when the model answered without an image
+
+  constructor(kind: GenerationErrorKind, message: string, options: { status?: number; cause?: unknown; modelText?: string } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.modelText = options.modelText;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> Dangerous content
+const formatCategory = (category: string) => {
+  const words = category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// IMAGE_SAFETY -> image safety
+const formatReason = (reason: string) => reason.toLowerCase().replace(/_/g, ' ');
+
+export class SafetyBlockError extends GenerationError {
+  finishReason: string;
+  blockedCategories: string[];
+
+  constructor(finishReason: string, blockedCategories: string[] = [], modelText?: string) {
+    const categories = blockedCategories.map(formatCategory).join(', ');
+    super('safety', `The request was blocked by safety filters (${finishReason})${categories ? `: ${categories}` : ''}.`, { modelText });
+    this.name = 'SafetyBlockError';
+    this.finishReason = finishReason;
+    this.blockedCategories = blockedCategories;
+  }
+}
+
+// Reads a field of whatever was thrown, which need not be an Error
+const errorField = (err: unknown, key: 'name' | 'message' | 'status'): unknown =>
+  typeof err === 'object' && err !== null && key in err ? err[key] : undefined;
+
+const errorMessage = (err: unknown): string | undefined => {
+  const message = errorField(err, 'message');
+  return typeof message === 'string' && message ? message : undefined;
+};
+
+/**
+ * Short description of a failure for a grid tile, such as
+ * "Blocked: image safety — Dangerous content".
+ */
+export const describeFailure = (err: unknown): string => {
+  if (err instanceof SafetyBlockError) {
+    const categories = err.blockedCategories.map(formatCategory).join(', ');
+    return `Blocked: ${formatReason(err.finishReason)}${categories ? ` — ${categories}` : ''}`;
+  }
+  return errorMessage(err) ?? 'Generation failed';
+};
+
+export const hasErrorKind = (err: unknown, kind: GenerationErrorKind): boolean =>
+  err instanceof GenerationError && err.kind === kind;
+
+const AUTH_MESSAGE = /API key|Requested entity was not found|PERMISSION_DENIED|UNAUTHENTICATED/i;
+const QUOTA_MESSAGE = /RESOURCE_EXHAUSTED|quota|rate limit/i;
+const TIMEOUT_MESSAGE = /DEADLINE_EXCEEDED|timed? ?out/i;
+const NETWORK_MESSAGE = /Failed to fetch|NetworkError|network error|Load failed/i;
+const SERVER_MESSAGE = /UNAVAILABLE|INTERNAL|overloaded/i;
+
+const kindForStatus = (status: number, message: string): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  // AI Studio answers 404 when the selected key's project cannot use the model,
+  // and the API answers 400 for a malformed key
+  if ((status === 404 || status === 400) && AUTH_MESSAGE.test(message)) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const kindForMessage = (message: string): GenerationErrorKind => {
+  if (AUTH_MESSAGE.test(message)) return 'auth';
+  if (QUOTA_MESSAGE.test(message)) return 'quota';
+  if (TIMEOUT_MESSAGE.test(message)) return 'timeout';
+  if (NETWORK_MESSAGE.test(message)) return 'network';
+  if (SERVER_MESSAGE.test(message)) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Turns anything a provider call throws into a GenerationError. Abort errors
+ * and errors that are already classified are returned unchanged.
+ */
+export const classifyError = (err: unknown): Error => {
+  if (err instanceof GenerationError) return err;
+  const name = errorField(err, 'name');
+  if (name === 'AbortError') return err as Error;
+  if (name === 'TimeoutError') {
+    return new GenerationError('timeout', 'The request timed out.', { cause: err });
+  }
+
+  const message = errorMessage(err) ?? String(err);
+  const status = errorField(err, 'status');
+  const kind = typeof status === 'number' ? kindForStatus(status, message) : kindForMessage(message);
+  return new GenerationError(kind, message, { status: typeof status === 'number' ? status : undefined, cause: err });
+};
+
+// A GenerationError as JSON, for errors that cross the API proxy
+export interface ErrorPayload {
+  kind: GenerationErrorKind;
+  message: string;
+  status?: number;
+  modelText?: string;
+  finishReason?: string; // Safety blocks only
+  blockedCategories?: string[];
+  usage?: TokenUsage;
+}
+
+export const toErrorPayload = (err: unknown): ErrorPayload => {
+  const error = classifyError(err);
+  if (!(error instanceof GenerationError)) return { kind: 'unknown', message: error.message };
+  return {
+    kind: error.kind,
+    message: error.message,
+    status: error.status,
+    modelText: error.modelText,
+    usage: error.usage,
+    ...(error instanceof SafetyBlockError && { finishReason: error.finishReason, blockedCategories: error.blockedCategories }),
+  };
+};
+
+/**
+ * Rebuilds the error a proxy response describes. Responses without a payload
+ * (a proxy in front of the proxy, or a crash) are classified by HTTP status.
+ */
+export const fromErrorPayload = (payload: ErrorPayload | undefined, httpStatus: number): GenerationError => {
+  if (!payload?.kind) {
+    return classifyError({ status: httpStatus, message: `The API proxy answered with HTTP ${httpStatus}.` }) as GenerationError;
+  }
+  const error = payload.kind === 'safety'
+    ? new SafetyBlockError(payload.finishReason ?? 'SAFETY', payload.blockedCategories, payload.modelText)
+    : new GenerationError(payload.kind, payload.message, { status: payload.status ?? httpStatus, modelText: payload.modelText });
+  error.usage = payload.usage;
+  return error;
+};
+
+export interface ErrorGuidance {
+  title: string;
+  hint: string;
+}
+
+export const ERROR_GUIDANCE: Record<GenerationErrorKind, ErrorGuidance> = {
+  auth: {
+    title: 'API key problem',
+    hint: 'Select a valid API key from a billing-enabled Google Cloud project, then try again.',
+  },
+  quota: {
+    title: 'Rate limit reached',
+    hint: 'Wait a minute before trying again, or lower Parallel Requests. If it persists, check the quota of your plan.',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: 'Rephrase the prompt or use a different image. Sending the same request again will be blocked again.',
+  },
+  'no-image': {
+    title: 'No image returned',
+    hint: 'The model answered without an image. Try again, or describe the picture you want more explicitly.',
+  },
+  network: {
+    title: 'Connection problem',
+    hint: 'Check your internet connection, then try again.',
+  },
+  timeout: {
+    title: 'Request timed out',
+    hint: 'The service took too long to answer. Try again, or choose a smaller output size.',
+  },
+  server: {
+    title: 'Service unavailable',
+    hint: 'The image service is busy or temporarily down. Try again in a moment.',
+  },
+  unknown: {
+    title: 'Generation failed',
+    hint: 'Try again. If it keeps failing, the browser console has the full error.',
+  },
+};
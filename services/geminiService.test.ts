@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ImageSize } from '../types';
+import { GenerationError, SafetyBlockError } from './errors';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn().mockImplementation(() => ({ models: { generateContent } })),
+}));
+
+import { generateImagePro, editImageFlash, upscaleImage, inpaintImage, refineImage, suggestRephrasedPrompt, geminiProvider } from './geminiService';
+
+const imageResponse = (data: string, mimeType?: string) => ({
+  candidates: [{ content: { parts: [{ text: 'Here you go' }, { inlineData: { data, mimeType } }] } }],
+});
+
+const textResponse = (text: string) => ({
+  candidates: [{ content: { parts: [{ text }] } }],
+});
+
+const lastRequest = () => generateContent.mock.calls[generateContent.mock.calls.length - 1][0];
+
+describe('geminiService', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+  });
+
+  describe('generateImagePro', () => {
+    it('sends the prompt with size and aspect ratio and returns a data URL', async () => {
+      generateContent.mockResolvedValue(imageResponse('AAAA', 'image/png'));
+
+      const result = await generateImagePro('a red fox', ImageSize.SIZE_2K, '16:9');
+
+      expect(result).toEqual({ data: 'data:image/png;base64,AAAA', mimeType: 'image/png' });
+      const request = lastRequest();
+      expect(request.model).toBe('gemini-3-pro-image-preview');
+      expect(request.contents.parts).toEqual([{ text: 'a red fox' }]);
+      expect(request.config.imageConfig).toEqual({ imageSize: '2K', aspectRatio: '16:9' });
+    });
+
+    it('keeps the MIME type the model returned', async () => {
+      generateContent.mockResolvedValue(imageResponse('BBBB', 'image/jpeg'));
+
+      const result = await generateImagePro('a red fox');
+
+      expect(result).toEqual({ data: 'data:image/jpeg;base64,BBBB', mimeType: 'image/jpeg' });
+    });
+
+    it('falls back to PNG when the part has no MIME type', async () => {
+      generateContent.mockResolvedValue(imageResponse('CCCC'));
+
+      const result = await generateImagePro('a red fox');
+
+      expect(result.mimeType).toBe('image/png');
+    });
+
+    it('throws when the response has no image', async () => {
+      generateContent.mockResolvedValue(textResponse('I cannot draw that.'));
+
+      const err = await generateImagePro('a red fox').catch(e => e);
+
+      expect(err.kind).toBe('no-image');
+      expect(err.message).toBe('No image generated by the model.');
+      expect(err.modelText).toBe('I cannot draw that.');
+    });
+
+    it('adds reference images with role instructions before the prompt', async () => {
+      generateContent.mockResolvedValue(imageResponse('AAAA', 'image/png'));
+
+      await generateImagePro('a poster', ImageSize.SIZE_1K, '1:1', [
+        { id: 'r1', data: 'data:image/jpeg;base64,SUBJECT', role: 'subject' },
+        { id: 'r2', data: 'data:image/webp;base64,STYLE', role: 'style' },
+      ]);
+
+      const parts = lastRequest().contents.parts;
+      expect(parts[0]).toEqual({ inlineData: { data: 'SUBJECT', mimeType: 'image/jpeg' } });
+      expect(parts[1]).toEqual({ inlineData: { data: 'STYLE', mimeType: 'image/webp' } });
+      expect(parts[2].text).toMatch(/^Image 1 shows the subject.*Image 2 is a style reference.*\n\na poster$/s);
+    });
+
+    it('forwards the abort signal', async () => {
+      generateContent.mockResolvedValue(imageResponse('AAAA', 'image/png'));
+      const controller = new AbortController();
+
+      await generateImagePro('a red fox', ImageSize.SIZE_1K, '1:1', [], {}, controller.signal);
+
+      expect(lastRequest().config.abortSignal).toBe(controller.signal);
+    });
+
+    it('passes the sampling seed and temperature', async () => {
+      generateContent.mockResolvedValue(imageResponse('AAAA', 'image/png'));
+
+      await generateImagePro('a red fox', ImageSize.SIZE_1K, '1:1', [], { seed: 42, temperature: 1.25 });
+
+      expect(lastRequest().config).toMatchObject({ seed: 42, temperature: 1.25 });
+    });
+  });
+
+  describe('editImageFlash', () => {
+    it('strips the data URL prefix and sends the real MIME type', async () => {
+      generateContent.mockResolvedValue(imageResponse('EDIT', 'image/png'));
+
+      const result = await editImageFlash('data:image/jpeg;base64,SOURCE', 'from above', '4:3');
+
+      expect(result.data).toBe('data:image/png;base64,EDIT');
+      const request = lastRequest();
+      expect(request.model).toBe('gemini-2.5-flash-image');
+      expect(request.contents.parts).toEqual([
+        { inlineData: { data: 'SOURCE', mimeType: 'image/jpeg' } },
+        { text: 'from above' },
+      ]);
+      expect(request.config.imageConfig).toEqual({ aspectRatio: '4:3' });
+    });
+
+    it('numbers reference images after the image being edited', async () => {
+      generateContent.mockResolvedValue(imageResponse('EDIT', 'image/png'));
+
+      await editImageFlash('data:image/png;base64,SOURCE', 'from above', '1:1', [
+        { id: 'r1', data: 'data:image/png;base64,LOGO', role: 'product' },
+      ]);
+
+      const parts = lastRequest().contents.parts;
+      expect(parts).toHaveLength(3);
+      expect(parts[1]).toEqual({ inlineData: { data: 'LOGO', mimeType: 'image/png' } });
+      expect(parts[2].text).toMatch(/^Image 1 is the image to edit\. Image 2 shows a product/);
+    });
+
+    it('throws when no variation is returned', async () => {
+      generateContent.mockResolvedValue(textResponse('nope'));
+
+      await expect(editImageFlash('data:image/png;base64,SOURCE', 'x')).rejects.toThrow('No image variation generated.');
+    });
+
+    it('classifies API errors', async () => {
+      generateContent.mockRejectedValue(Object.assign(new Error('Requested entity was not found.'), { status: 404 }));
+
+      const err = await editImageFlash('data:image/png;base64,SOURCE', 'x').catch(e => e);
+
+      expect(err).toBeInstanceOf(GenerationError);
+      expect(err.kind).toBe('auth');
+      expect(err.message).toBe('Requested entity was not found.');
+    });
+
+    it('reports a blocked prompt as a safety block', async () => {
+      generateContent.mockResolvedValue({
+        candidates: [],
+        promptFeedback: {
+          blockReason: 'SAFETY',
+          safetyRatings: [
+            { category: 'HARM_CATEGORY_HARASSMENT', blocked: true },
+            { category: 'HARM_CATEGORY_HATE_SPEECH', blocked: false },
+          ],
+        },
+      });
+
+      const err = await editImageFlash('data:image/png;base64,SOURCE', 'x').catch(e => e);
+
+      expect(err).toBeInstanceOf(SafetyBlockError);
+      expect(err.finishReason).toBe('SAFETY');
+      expect(err.blockedCategories).toEqual(['HARM_CATEGORY_HARASSMENT']);
+    });
+
+    it('reports a filtered output as a safety block with the tokens it used', async () => {
+      generateContent.mockResolvedValue({
+        candidates: [{ finishReason: 'IMAGE_SAFETY', content: { parts: [] } }],
+        usageMetadata: { promptTokenCount: 560, candidatesTokenCount: 1290 },
+      });
+
+      const err = await editImageFlash('data:image/png;base64,SOURCE', 'x').catch(e => e);
+
+      expect(err).toBeInstanceOf(SafetyBlockError);
+      expect(err.finishReason).toBe('IMAGE_SAFETY');
+      expect(err.modelText).toBeUndefined();
+      expect(err.usage).toEqual({ inputTokens: 560, outputTokens: 1290 });
+    });
+
+    it('includes an unusual finish reason in the no-image error', async () => {
+      generateContent.mockResolvedValue({ candidates: [{ finishReason: 'NO_IMAGE', content: { parts: [] } }] });
+
+      const err = await editImageFlash('data:image/png;base64,SOURCE', 'x').catch(e => e);
+
+      expect(err.kind).toBe('no-image');
+      expect(err.message).toBe('No image variation generated. Finish reason: NO_IMAGE.');
+    });
+  });
+
+  describe('upscaleImage', () => {
+    it('requests the target size with the image as context', async () => {
+      generateContent.mockResolvedValue(imageResponse('BIG', 'image/png'));
+
+      const result = await upscaleImage('data:image/webp;base64,SMALL', 'a red fox', ImageSize.SIZE_4K, '21:9');
+
+      expect(result.data).toBe('data:image/png;base64,BIG');
+      const request = lastRequest();
+      expect(request.model).toBe('gemini-3-pro-image-preview');
+      expect(request.contents.parts).toEqual([
+        { inlineData: { data: 'SMALL', mimeType: 'image/webp' } },
+        { text: 'High resolution, highly detailed version: a red fox' },
+      ]);
+      expect(request.config.imageConfig).toEqual({ imageSize: '4K', aspectRatio: '21:9' });
+    });
+
+    it('reports the token usage of the call', async () => {
+      generateContent.mockResolvedValue({
+        ...imageResponse('BIG', 'image/png'),
+        usageMetadata: { promptTokenCount: 560, candidatesTokenCount: 2000, thoughtsTokenCount: 120 },
+      });
+
+      const result = await upscaleImage('data:image/png;base64,SMALL', 'a red fox');
+
+      expect(result.usage).toEqual({ inputTokens: 560, outputTokens: 2120 });
+    });
+
+    it('throws when the upscale returns no image', async () => {
+      generateContent.mockResolvedValue(textResponse('nope'));
+
+      await expect(upscaleImage('data:image/png;base64,SMALL', 'x')).rejects.toThrow('Failed to upscale image.');
+    });
+  });
+
+  describe('inpaintImage', () => {
+    it('sends the mask as the second image', async () => {
+      generateContent.mockResolvedValue(imageResponse('FIXED', 'image/png'));
+
+      await inpaintImage('data:image/png;base64,SOURCE', 'data:image/png;base64,MASK', 'remove the chair');
+
+      const parts = lastRequest().contents.parts;
+      expect(parts[0].inlineData.data).toBe('SOURCE');
+      expect(parts[1].inlineData.data).toBe('MASK');
+      expect(parts[2].text).toContain('Edit: remove the chair');
+    });
+  });
+
+  describe('refineImage', () => {
+    it('sends earlier turns as alternating user and model messages', async () => {
+      generateContent.mockResolvedValue(imageResponse('NEXT', 'image/png'));
+
+      const turns = [{ instruction: 'warmer light', image: 'data:image/png;base64,WARM' }];
+      await refineImage('data:image/jpeg;base64,START', turns, 'now remove the chair', '4:3');
+
+      const request = lastRequest();
+      expect(request.model).toBe('gemini-2.5-flash-image');
+      expect(request.contents).toEqual([
+        { role: 'user', parts: [{ inlineData: { data: 'START', mimeType: 'image/jpeg' } }, { text: 'warmer light' }] },
+        { role: 'model', parts: [{ inlineData: { data: 'WARM', mimeType: 'image/png' } }] },
+        { role: 'user', parts: [{ text: 'now remove the chair' }] },
+      ]);
+      expect(request.config.imageConfig).toEqual({ aspectRatio: '4:3' });
+    });
+  });
+
+  describe('suggestRephrasedPrompt', () => {
+    it('asks the text model for a rewrite and strips quotes', async () => {
+      generateContent.mockResolvedValue({ text: '"a cartoon fox"\n' });
+
+      const suggestion = await suggestRephrasedPrompt('a gory fox', 'Blocked: safety');
+
+      expect(suggestion).toEqual({ text: 'a cartoon fox', usage: undefined });
+      const request = lastRequest();
+      expect(request.model).toBe('gemini-2.5-flash');
+      expect(request.contents).toContain('(Blocked: safety)');
+      expect(request.contents).toContain('Prompt: a gory fox');
+    });
+
+    it('throws a safety block when the rewrite is blocked too', async () => {
+      generateContent.mockResolvedValue({ text: undefined, promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } });
+
+      await expect(suggestRephrasedPrompt('x', 'Blocked: safety')).rejects.toBeInstanceOf(SafetyBlockError);
+    });
+  });
+
+  describe('geminiProvider', () => {
+    it('maps provider requests onto the service functions', async () => {
+      generateContent.mockResolvedValue(imageResponse('AAAA', 'image/png'));
+
+      await geminiProvider.edit({ image: 'data:image/png;base64,SOURCE', prompt: 'wide shot', aspectRatio: '9:16' });
+
+      const request = lastRequest();
+      expect(request.model).toBe(geminiProvider.models.edit);
+      expect(request.config.imageConfig).toEqual({ aspectRatio: '9:16' });
+    });
+  });
+});
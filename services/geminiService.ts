@@ -1,5 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
-import { ImageSize, AspectRatio } from "../types";
+import { GoogleGenAI, GenerateContentParameters, Content } from "@google/genai";
+import { ImageSize, AspectRatio, GeneratedImage, GeneratedText, ReferenceImage, ReferenceRole, TokenUsage } from "../types";
+import { parseDataUrl, toDataUrl } from "./imageFormat";
+import { config } from "./config";
+import { GenerationError, SafetyBlockError, classifyError } from "./errors";
+import type { ImageProvider, RefineTurn } from "./imageProvider";
 
 // Helper to get the AI client. 
 // We create a new instance each time to ensure we pick up the latest API key if it changes via the selection UI.
@@ -7,107 +11,203 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+type GenerateContentResponse = Awaited<ReturnType<GoogleGenAI['models']['generateContent']>>;
+
+// Returns the first image part of a response, keeping the MIME type the model reported.
+const extractImage = (response: GenerateContentResponse): GeneratedImage | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      const mimeType = part.inlineData.mimeType || 'image/png';
+      return { data: toDataUrl(part.inlineData.data, mimeType), mimeType };
+    }
+  }
+  return null;
+};
+
+// Finish and block reasons that mean a safety filter stopped the request
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Text the model returned alongside (or instead of) an image, skipping thoughts
+const extractText = (response: GenerateContentResponse): string | undefined => {
+  const candidate = response.candidates?.[0];
+  const text = (candidate?.content?.parts || [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text!.trim())
+    .join('\n')
+    .trim();
+  return text || candidate?.finishMessage || undefined;
+};
+
+// Thinking tokens are billed as output
+const tokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const usage = response.usageMetadata;
+  return usage
+    ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) }
+    : undefined;
+};
+
+// Explains a response without an image: a blocked prompt, a filtered output, or no image at all.
+// The model's text answer is kept, since it often says why it declined, and so are the billed tokens.
+const noImageError = (response: GenerateContentResponse, message: string): GenerationError => {
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = candidate?.finishReason;
+  const modelText = extractText(response);
+  const reason = blockReason ?? (finishReason && SAFETY_REASONS.includes(finishReason) ? finishReason : undefined);
+  let error: GenerationError;
+  if (reason) {
+    const ratings = [...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])];
+    const categories = [...new Set(ratings.filter(r => r.blocked && r.category).map(r => r.category as string))];
+    error = new SafetyBlockError(reason, categories, modelText);
+  } else {
+    error = new GenerationError(
+      'no-image',
+      finishReason && finishReason !== 'STOP' ? `${message} Finish reason: ${finishReason}.` : message,
+      { modelText }
+    );
+  }
+  error.usage = tokenUsage(response);
+  return error;
+};
+
+// Sends a request and returns its image, throwing a classified GenerationError on failure.
+const requestImage = async (params: GenerateContentParameters, noImageMessage: string): Promise<GeneratedImage> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getAiClient().models.generateContent(params);
+  } catch (err) {
+    throw classifyError(err);
+  }
+
+  const image = extractImage(response);
+  if (image) {
+    const usage = tokenUsage(response);
+    return usage ? { ...image, usage } : image;
+  }
+  throw noImageError(response, noImageMessage);
+};
+
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  subject: 'shows the subject; keep their identity, features and proportions consistent',
+  style: 'is a style reference; match its color palette, lighting, medium and overall aesthetic, not its content',
+  background: 'is a background reference; place the scene in this setting',
+  product: 'shows a product; reproduce it accurately, including its shape, materials, logos and text',
+};
+
+/**
+ * Turns reference images into inline parts plus a text preamble that tells the
+ * model what each one is for. `firstIndex` is the 1-based position of the first
+ * reference among all images in the request.
+ */
+export const buildReferenceParts = (references: ReferenceImage[], firstIndex = 1) => {
+  const parts = references.map(ref => {
+    const { data, mimeType } = parseDataUrl(ref.data);
+    return { inlineData: { data, mimeType } };
+  });
+  const preamble = references
+    .map((ref, i) => `Image ${firstIndex + i} ${ROLE_INSTRUCTIONS[ref.role]}.`)
+    .join(' ');
+  return { parts, preamble };
+};
+
 /**
- * Generates an image using Gemini 3 Pro Image Preview (Nano Banana Pro).
- * This model supports high resolutions (up to 4K).
+ * Generates an image using the Pro image model (Gemini 3 Pro Image Preview / Nano Banana Pro by default).
+ * This model supports high resolutions (up to 4K). A fixed seed and temperature make
+ * candidates of the same prompt differ in a reproducible way.
  */
 export const generateImagePro = async (
   prompt: string,
   size: ImageSize = ImageSize.SIZE_1K,
-  aspectRatio: AspectRatio = "1:1"
-): Promise<string> => {
-  const ai = getAiClient();
+  aspectRatio: AspectRatio = "1:1",
+  references: ReferenceImage[] = [],
+  sampling: { seed?: number; temperature?: number } = {},
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { parts: referenceParts, preamble } = buildReferenceParts(references);
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
+  return requestImage({
+    model: config.models.pro,
     contents: {
       parts: [
-        { text: prompt }
+        ...referenceParts,
+        { text: preamble ? `${preamble}\n\n${prompt}` : prompt }
       ]
     },
     config: {
+      abortSignal: signal,
+      seed: sampling.seed,
+      temperature: sampling.temperature,
       imageConfig: {
         imageSize: size,
         aspectRatio: aspectRatio,
       }
     }
-  });
-
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-
-  throw new Error("No image generated by the model.");
+  }, "No image generated by the model.");
 };
 
 /**
- * Edits an image using Gemini 2.5 Flash Image.
- * Used for generating angle variations.
+ * Edits an image using the Flash image model (Gemini 2.5 Flash Image by default).
+ * Used for generating angle variations. Reference images follow the image being
+ * edited, so they are numbered from 2 in the prompt.
  */
 export const editImageFlash = async (
   base64Image: string,
   prompt: string,
-  aspectRatio: AspectRatio = "1:1"
-): Promise<string> => {
-  const ai = getAiClient();
-
-  // Strip prefix if present for the API call
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  aspectRatio: AspectRatio = "1:1",
+  references: ReferenceImage[] = [],
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  // Strip the data URL prefix for the API call, keeping the real MIME type
+  const { data: cleanBase64, mimeType } = parseDataUrl(base64Image);
+  const { parts: referenceParts, preamble } = buildReferenceParts(references, 2);
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+  return requestImage({
+    model: config.models.flash,
     contents: {
       parts: [
         {
           inlineData: {
             data: cleanBase64,
-            mimeType: 'image/png', // Assuming PNG for simplicity/compatibility
+            mimeType,
           },
         },
+        ...referenceParts,
         {
-          text: prompt,
+          text: preamble ? `Image 1 is the image to edit. ${preamble}\n\n${prompt}` : prompt,
         },
       ],
     },
     config: {
+      abortSignal: signal,
       imageConfig: {
         aspectRatio: aspectRatio
       }
     }
-  });
-
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-
-  throw new Error("No image variation generated.");
+  }, "No image variation generated.");
 };
 
 /**
  * "Upscales" an image by using Gemini 3 Pro with the original image as reference
- * and requesting a larger output size.
+ * and requesting a larger output size in the same aspect ratio.
  */
 export const upscaleImage = async (
   base64Image: string,
   prompt: string,
-  targetSize: ImageSize = ImageSize.SIZE_4K
-): Promise<string> => {
-  const ai = getAiClient();
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  targetSize: ImageSize = ImageSize.SIZE_4K,
+  aspectRatio: AspectRatio = "1:1",
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { data: cleanBase64, mimeType } = parseDataUrl(base64Image);
 
   // We treat upscaling as a high-fidelity generation with the image as context
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
+  return requestImage({
+    model: config.models.pro,
     contents: {
       parts: [
         {
           inlineData: {
             data: cleanBase64,
-            mimeType: 'image/png',
+            mimeType,
           },
         },
         {
@@ -116,19 +216,145 @@ export const upscaleImage = async (
       ],
     },
     config: {
+      abortSignal: signal,
       imageConfig: {
         imageSize: targetSize,
+        aspectRatio: aspectRatio
       }
     }
+  }, "Failed to upscale image.");
+};
+
+/**
+ * Edits a masked region of an image using the Flash image model.
+ * The mask is sent as a second image (white = area to change); the caller is
+ * expected to composite the result back inside the mask, since the model may
+ * still drift outside it.
+ */
+export const inpaintImage = async (
+  base64Image: string,
+  base64Mask: string,
+  prompt: string,
+  aspectRatio: AspectRatio = "1:1",
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const image = parseDataUrl(base64Image);
+  const mask = parseDataUrl(base64Mask);
+
+  return requestImage({
+    model: config.models.flash,
+    contents: {
+      parts: [
+        { inlineData: { data: image.data, mimeType: image.mimeType } },
+        { inlineData: { data: mask.data, mimeType: mask.mimeType } },
+        {
+          text: `The second image is a mask for the first. Edit only the area that is white in the mask and keep everything in the black area exactly as it is. Return the full edited image. Edit: ${prompt}`,
+        },
+      ],
+    },
+    config: {
+      abortSignal: signal,
+      imageConfig: {
+        aspectRatio: aspectRatio
+      }
+    }
+  }, "No inpainted image generated.");
+};
+
+const inlinePart = (dataUrl: string) => {
+  const { data, mimeType } = parseDataUrl(dataUrl);
+  return { inlineData: { data, mimeType } };
+};
+
+/**
+ * Lays out a refinement conversation as alternating user and model turns: the
+ * starting image with the first instruction, then each result followed by the
+ * next instruction.
+ */
+export const buildRefineContents = (base64Image: string, turns: RefineTurn[], prompt: string) => {
+  const instructions = [...turns.map(turn => turn.instruction), prompt];
+  const contents: Content[] = [{ role: 'user', parts: [inlinePart(base64Image), { text: instructions[0] }] }];
+  turns.forEach((turn, i) => {
+    contents.push({ role: 'model', parts: [inlinePart(turn.image)] });
+    contents.push({ role: 'user', parts: [{ text: instructions[i + 1] }] });
   });
+  return contents;
+};
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+/**
+ * Edits an image as the next turn of a conversation using the Flash image
+ * model. Earlier instructions and their results are sent as history, so an
+ * instruction like "now remove the chair" builds on the previous turns.
+ */
+export const refineImage = async (
+  base64Image: string,
+  turns: RefineTurn[],
+  prompt: string,
+  aspectRatio: AspectRatio = "1:1",
+  signal?: AbortSignal
+): Promise<GeneratedImage> =>
+  requestImage({
+    model: config.models.flash,
+    contents: buildRefineContents(base64Image, turns, prompt),
+    config: {
+      abortSignal: signal,
+      imageConfig: {
+        aspectRatio: aspectRatio
+      }
     }
+  }, "No refined image generated.");
+
+/**
+ * Asks the text model for a rewrite of a prompt that was blocked, keeping its
+ * intent but steering clear of what likely triggered the filter.
+ */
+export const suggestRephrasedPrompt = async (
+  prompt: string,
+  reason: string,
+  signal?: AbortSignal
+): Promise<GeneratedText> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getAiClient().models.generateContent({
+      model: config.models.text,
+      contents: `An image generation prompt was blocked by safety filters (${reason}). Rewrite it so it keeps the creative intent but avoids anything that could read as explicit, violent, hateful, dangerous or as depicting a real person. Reply with the rewritten prompt only.\n\nPrompt: ${prompt}`,
+      config: { abortSignal: signal },
+    });
+  } catch (err) {
+    throw classifyError(err);
   }
 
-  throw new Error("Failed to upscale image.");
+  const suggestion = response.text?.trim().replace(/^["']+|["']+$/g, '');
+  if (suggestion) return { text: suggestion, usage: tokenUsage(response) };
+  const blockReason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+  const error = blockReason && SAFETY_REASONS.includes(blockReason)
+    ? new SafetyBlockError(blockReason)
+    : new GenerationError('unknown', "The model did not suggest a rephrased prompt.");
+  error.usage = tokenUsage(response);
+  throw error;
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  models: {
+    generate: config.models.pro,
+    edit: config.models.flash,
+    upscale: config.models.pro,
+    text: config.models.text,
+  },
+  requiresApiKey: true,
+  generate: ({ prompt, size, aspectRatio, references, seed, temperature }, signal) =>
+    generateImagePro(prompt, size, aspectRatio, references, { seed, temperature }, signal),
+  edit: ({ image, prompt, aspectRatio, references }, signal) =>
+    editImageFlash(image, prompt, aspectRatio, references, signal),
+  upscale: ({ image, prompt, size, aspectRatio }, signal) =>
+    upscaleImage(image, prompt, size, aspectRatio, signal),
+  inpaint: ({ image, mask, prompt, aspectRatio }, signal) =>
+    inpaintImage(image, mask, prompt, aspectRatio, signal),
+  refine: ({ image, turns, prompt, aspectRatio }, signal) =>
+    refineImage(image, turns, prompt, aspectRatio, signal),
+  rephrase: (prompt, reason, signal) =>
+    suggestRephrasedPrompt(prompt, reason, signal),
 };
 
 // Check for API Key selection availability (specific to GCP projects for Pro models)
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createGenerationQueue, JobProgress } from './generationQueue';
+import { GenerationError } from './errors';
+
+// A task whose settlement the test controls
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// Rejects when the queue aborts the task's signal, like a fetch would
+const hangUntilAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+describe('createGenerationQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter: every backoff is the full delay
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most maxConcurrency jobs at a time', async () => {
+    const queue = createGenerationQueue({ maxConcurrency: 2 });
+    const tasks = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+    const results = tasks.map((task, i) => queue.run(() => {
+      started.push(i);
+      return task.promise;
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    tasks[0].resolve('a');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[1].resolve('b');
+    tasks[2].resolve('c');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('retries retryable errors until the task succeeds', async () => {
+    const queue = createGenerationQueue({ baseDelayMs: 1000 });
+    const task = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('server', 'UNAVAILABLE'))
+      .mockResolvedValueOnce('image');
+    const progress: JobProgress[] = [];
+
+    const result = queue.run(task, { onProgress: p => progress.push(p) });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toBe('image');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(progress.map(p => p.status)).toEqual(['pending', 'running', 'retrying', 'running', 'done']);
+    expect(progress[2]).toMatchObject({ attempt: 1, retryInMs: 1000, error: 'UNAVAILABLE' });
+  });
+
+  it('fails at once on errors that are not retryable', async () => {
+    const queue = createGenerationQueue();
+    const task = vi.fn().mockRejectedValue(new GenerationError('auth', 'API key not valid'));
+    const progress: JobProgress[] = [];
+
+    await expect(queue.run(task, { onProgress: p => progress.push(p) })).rejects.toThrow('API key not valid');
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(progress[progress.length - 1]).toEqual({ status: 'failed', attempt: 1, error: 'API key not valid' });
+  });
+
+  it('doubles the backoff on each retry up to maxDelayMs, then gives up', async () => {
+    const queue = createGenerationQueue({ maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 5000 });
+    const task = vi.fn().mockRejectedValue(new GenerationError('quota', 'RESOURCE_EXHAUSTED'));
+    const delays: number[] = [];
+
+    const result = queue.run(task, { onProgress: p => { if (p.retryInMs) delays.push(p.retryInMs); } });
+    const settled = expect(result).rejects.toThrow('RESOURCE_EXHAUSTED');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1 + 2000 + 4000 + 5000);
+
+    await settled;
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+    expect(task).toHaveBeenCalledTimes(5);
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const queue = createGenerationQueue({ maxConcurrency: 1 });
+    const first = deferred<string>();
+    queue.run(() => first.promise);
+    const controller = new AbortController();
+    const queued = vi.fn().mockResolvedValue('never');
+    const progress: JobProgress[] = [];
+
+    const result = queue.run(queued, { signal: controller.signal, onProgress: p => progress.push(p) });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(progress.map(p => p.status)).toEqual(['pending', 'cancelled']);
+
+    // The slot it waited for goes to the next job
+    first.resolve('done');
+    await expect(queue.run(async () => 'next')).resolves.toBe('next');
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it('aborts the signal of a running job and frees its slot', async () => {
+    const queue = createGenerationQueue({ maxConcurrency: 1 });
+    const controller = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+    const progress: JobProgress[] = [];
+
+    const result = queue.run(signal => {
+      taskSignal = signal;
+      return hangUntilAborted(signal);
+    }, { signal: controller.signal, onProgress: p => progress.push(p) });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(taskSignal?.aborted).toBe(true);
+    expect(progress[progress.length - 1]).toEqual({ status: 'cancelled', attempt: 1 });
+    await expect(queue.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('cancels a job while it waits to retry', async () => {
+    const queue = createGenerationQueue({ baseDelayMs: 1000 });
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new GenerationError('server', 'UNAVAILABLE'));
+
+    const result = queue.run(task, { signal: controller.signal });
+    const settled = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await settled;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
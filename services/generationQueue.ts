@@ -0,0 +1,151 @@
+import { GenerationError } from "./errors";
+
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  status: JobStatus;
+  attempt: number; // 1-based attempt currently (or last) executed
+  retryInMs?: number; // Set while waiting to retry
+  error?: string;
+}
+
+export interface QueueOptions {
+  maxConcurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: Required<QueueOptions> = {
+  maxConcurrency: 3,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_MESSAGE = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|Failed to fetch|NetworkError|network error/i;
+
+export const isAbortError = (err: any): boolean =>
+  err?.name === 'AbortError';
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying;
+ * bad requests, invalid keys and safety blocks will fail the same way again.
+ */
+export const isRetryableError = (err: any): boolean => {
+  if (!err || isAbortError(err)) return false;
+  if (err instanceof GenerationError) return err.retryable;
+  if (typeof err.status === 'number') return RETRYABLE_STATUS.includes(err.status);
+  return RETRYABLE_MESSAGE.test(err.message || '');
+};
+
+const abortError = () => new DOMException('The generation was cancelled.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Creates a queue that runs at most `maxConcurrency` jobs at a time and retries
+ * retryable failures with exponential backoff. Each job can be cancelled through
+ * its own AbortSignal; the signal is also handed to the task so in-flight
+ * requests are aborted.
+ */
+export const createGenerationQueue = (options: QueueOptions = {}) => {
+  const { maxConcurrency, maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const acquire = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      if (active < maxConcurrency) {
+        active++;
+        return resolve();
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(start);
+        if (index !== -1) waiting.splice(index, 1);
+        reject(abortError());
+      };
+      waiting.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const backoff = (attempt: number) => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    // Jitter keeps parallel jobs that hit the same rate limit from retrying in lockstep
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  };
+
+  const run = async <T>(task: (signal: AbortSignal) => Promise<T>, jobOptions: JobOptions = {}): Promise<T> => {
+    const { signal, onProgress } = jobOptions;
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let attempt = 0;
+    onProgress?.({ status: 'pending', attempt });
+
+    try {
+      while (true) {
+        let retryInMs: number;
+        await acquire(signal);
+        attempt++;
+        onProgress?.({ status: 'running', attempt });
+        try {
+          const result = await task(controller.signal);
+          onProgress?.({ status: 'done', attempt });
+          return result;
+        } catch (err: any) {
+          if (signal?.aborted) throw abortError();
+          if (attempt > maxRetries || !isRetryableError(err)) throw err;
+          retryInMs = backoff(attempt);
+          onProgress?.({ status: 'retrying', attempt, retryInMs, error: err.message });
+        } finally {
+          release();
+        }
+        await wait(retryInMs, signal);
+      }
+    } catch (err: any) {
+      if (isAbortError(err) || signal?.aborted) {
+        onProgress?.({ status: 'cancelled', attempt });
+        throw abortError();
+      }
+      onProgress?.({ status: 'failed', attempt, error: err.message });
+      throw err;
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  };
+
+  return { run };
+};
+
+export type GenerationQueue = ReturnType<typeof createGenerationQueue>;
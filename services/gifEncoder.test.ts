@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, lzwEncode, quantize } from './gifEncoder';
+
+// Reference GIF LZW decoder, to check the encoder's output round-trips
+const lzwDecode = (blocks: Uint8Array, minCodeSize: number): number[] => {
+  const bytes: number[] = [];
+  for (let offset = 0; blocks[offset] > 0; offset += blocks[offset] + 1) {
+    bytes.push(...blocks.subarray(offset + 1, offset + 1 + blocks[offset]));
+  }
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitPos = 0;
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  while (bitPos + codeSize <= bytes.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPos++) {
+      code |= ((bytes[bitPos >> 3] >> (bitPos & 7)) & 1) << bit;
+    }
+    if (code === clearCode) { reset(); continue; }
+    if (code === clearCode + 1) break;
+    const entry = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return output;
+};
+
+const solid = (pixelCount: number, [r, g, b]: number[]) => {
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  for (let i = 0; i < pixelCount; i++) pixels.set([r, g, b, 255], i * 4);
+  return pixels;
+};
+
+describe('gifEncoder', () => {
+  it('compresses indices losslessly, including past a full code table', () => {
+    const indices = new Uint8Array(20000).map((_, i) => (i * 7919 + (i >> 5)) % 256);
+
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+  });
+
+  it('keeps images with few colors exact', () => {
+    const pixels = new Uint8ClampedArray([
+      255, 0, 0, 255,
+      0, 0, 255, 255,
+      255, 0, 0, 255,
+      0, 255, 0, 255,
+    ]);
+
+    const { palette, indices } = quantize(pixels);
+    const colors = Array.from(indices, i => Array.from(palette.subarray(i * 3, i * 3 + 3)));
+
+    expect(palette.length).toBe(9);
+    expect(colors).toEqual([[255, 0, 0], [0, 0, 255], [255, 0, 0], [0, 255, 0]]);
+  });
+
+  it('limits the palette to the requested number of colors', () => {
+    const pixels = new Uint8ClampedArray(256 * 256 * 4);
+    for (let i = 0; i < 256 * 256; i++) pixels.set([i & 255, i >> 8, (i * 3) & 255, 255], i * 4);
+
+    const { palette, indices } = quantize(pixels, 16);
+
+    expect(palette.length).toBe(16 * 3);
+    expect(Math.max(...indices)).toBeLessThan(16);
+  });
+
+  it('writes a looping animation with one delay per frame', async () => {
+    const gif = createGifEncoder(2, 2);
+    gif.addFrame({ pixels: solid(4, [255, 0, 0]), delayMs: 500 });
+    gif.addFrame({ pixels: solid(4, [0, 0, 255]), delayMs: 40 });
+
+    const bytes = new Uint8Array(await gif.finish().arrayBuffer());
+    const text = new TextDecoder('latin1').decode(bytes);
+    const delays = [...text.matchAll(/\x21\xf9\x04/g)].map(m => bytes[m.index! + 4] | (bytes[m.index! + 5] << 8));
+
+    expect(text.startsWith('GIF89a')).toBe(true);
+    expect(text).toContain('NETSCAPE2.0');
+    expect(delays).toEqual([50, 4]);
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+  });
+
+  it('refuses to finish without frames', () => {
+    expect(() => createGifEncoder(2, 2).finish()).toThrow(/no frames/);
+  });
+});
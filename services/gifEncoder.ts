@@ -0,0 +1,214 @@
+export interface GifFrame {
+  pixels: Uint8ClampedArray; // RGBA, as returned by getImageData; alpha is ignored
+  delayMs: number;
+}
+
+// Colors are bucketed at 5 bits per channel before quantizing
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const channelOf = (bucket: number, channel: number) => (bucket >> (10 - channel * 5)) & 31;
+
+interface ColorBox {
+  buckets: number[];
+  count: number; // Pixels in the box
+  widest: number; // Channel with the largest spread
+  range: number;
+}
+
+const createBox = (buckets: number[], count: number): ColorBox => {
+  let widest = 0;
+  let range = 0;
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 31;
+    let max = 0;
+    for (const bucket of buckets) {
+      const value = channelOf(bucket, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > range) {
+      range = max - min;
+      widest = channel;
+    }
+  }
+  return { buckets, count, widest, range };
+};
+
+/**
+ * Reduces an RGBA image to at most `maxColors` colors by median cut. Returns
+ * the palette as RGB triples and one palette index per pixel.
+ */
+export const quantize = (pixels: Uint8ClampedArray, maxColors = 256): { palette: Uint8Array; indices: Uint8Array } => {
+  const counts = new Uint32Array(32768);
+  const sums = new Uint32Array(32768 * 3);
+  const pixelCount = pixels.length / 4;
+  const bucketOfPixel = new Uint16Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const bucket = bucketOf(r, g, b);
+    bucketOfPixel[i] = bucket;
+    counts[bucket]++;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < counts.length; bucket++) if (counts[bucket]) used.push(bucket);
+  const boxes: ColorBox[] = [createBox(used, pixelCount)];
+
+  // Split the box whose widest channel spans the most pixels until there are enough colors
+  while (boxes.length < maxColors) {
+    let best = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.buckets.length < 2) return;
+      const score = box.count * (box.range + 1);
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    if (best < 0) break;
+
+    const box = boxes[best];
+    const { widest } = box;
+    box.buckets.sort((a, b) => channelOf(a, widest) - channelOf(b, widest));
+    let seen = 0;
+    let cut = 1;
+    for (; cut < box.buckets.length - 1; cut++) {
+      seen += counts[box.buckets[cut - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const lower = box.buckets.slice(0, cut);
+    const upper = box.buckets.slice(cut);
+    const lowerCount = lower.reduce((sum, bucket) => sum + counts[bucket], 0);
+    boxes.splice(best, 1, createBox(lower, lowerCount), createBox(upper, box.count - lowerCount));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  const paletteIndex = new Uint8Array(32768);
+  boxes.forEach((box, i) => {
+    const total = [0, 0, 0];
+    for (const bucket of box.buckets) {
+      paletteIndex[bucket] = i;
+      for (let channel = 0; channel < 3; channel++) total[channel] += sums[bucket * 3 + channel];
+    }
+    for (let channel = 0; channel < 3; channel++) palette[i * 3 + channel] = Math.round(total[channel] / Math.max(1, box.count));
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) indices[i] = paletteIndex[bucketOfPixel[i]];
+  return { palette, indices };
+};
+
+/**
+ * GIF's variable-width LZW compression of palette indices, split into the
+ * length-prefixed sub-blocks the format stores image data in.
+ */
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bits & 0xff);
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      // The table is full: start over rather than keep coding with a stale table
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bits & 0xff);
+
+  const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let offset = 0;
+  for (let start = 0; start < bytes.length; start += 255) {
+    const block = bytes.slice(start, start + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0; // Block terminator
+  return blocks;
+};
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encodes full-size frames as a looping animated GIF, one frame at a time so
+ * the pixels of earlier frames need not be kept. Each frame gets its own
+ * 256-color palette, so crossfades between different views keep their colors.
+ */
+export const createGifEncoder = (width: number, height: number) => {
+  const parts: Uint8Array[] = [
+    new Uint8Array([
+      ...ascii('GIF89a'),
+      ...uint16(width), ...uint16(height),
+      0, 0, 0, // No global color table, background color, pixel aspect ratio
+      // NETSCAPE2.0 extension: loop forever
+      0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, ...uint16(0), 0x00,
+    ]),
+  ];
+  let frameCount = 0;
+
+  return {
+    addFrame: ({ pixels, delayMs }: GifFrame) => {
+      const { palette, indices } = quantize(pixels);
+      // Color tables hold a power of two entries, at least 2
+      const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+      const table = new Uint8Array(3 << tableBits);
+      table.set(palette);
+
+      parts.push(
+        new Uint8Array([
+          // Graphic control extension: keep the frame when the next one is drawn, delay in 1/100 s
+          0x21, 0xf9, 0x04, 1 << 2, ...uint16(Math.round(delayMs / 10)), 0, 0x00,
+          // Image descriptor covering the whole canvas, with a local color table
+          0x2c, ...uint16(0), ...uint16(0), ...uint16(width), ...uint16(height), 0x80 | (tableBits - 1),
+        ]),
+        table,
+        new Uint8Array([Math.max(2, tableBits)]),
+        lzwEncode(indices, Math.max(2, tableBits))
+      );
+      frameCount++;
+    },
+    finish: (): Blob => {
+      if (frameCount === 0) throw new Error("There are no frames to encode.");
+      return new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' }); // Trailer
+    },
+  };
+};
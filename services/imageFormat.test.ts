@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { dataUrlByteSize, formatBytes, parseDataUrl, sniffMimeType } from './imageFormat';
+
+describe('imageFormat', () => {
+  it('measures the decoded size of a data URL', () => {
+    expect(dataUrlByteSize(`data:image/png;base64,${btoa('abc')}`)).toBe(3);
+    expect(dataUrlByteSize(`data:image/png;base64,${btoa('abcd')}`)).toBe(4);
+    expect(dataUrlByteSize(`data:image/png;base64,${btoa('abcde')}`)).toBe(5);
+  });
+
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.00 MB');
+  });
+
+  it('splits data URLs and accepts bare base64', () => {
+    expect(parseDataUrl('data:image/webp;base64,AAAA')).toEqual({ mimeType: 'image/webp', data: 'AAAA' });
+    expect(parseDataUrl('AAAA', 'image/jpeg')).toEqual({ mimeType: 'image/jpeg', data: 'AAAA' });
+  });
+
+  it('detects formats from magic bytes', () => {
+    expect(sniffMimeType(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe('image/png');
+    expect(sniffMimeType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffMimeType(new TextEncoder().encode('\0\0\0\x18ftypheic'))).toBe('image/heic');
+    expect(sniffMimeType(new Uint8Array([1, 2, 3, 4]))).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+// Formats the Gemini image models accept as inline input. Anything else is converted before upload.
+export const SUPPORTED_INPUT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const EXPORT_FORMATS: { mimeType: ExportFormat; label: string; lossy: boolean }[] = [
+  { mimeType: 'image/png', label: 'PNG', lossy: false },
+  { mimeType: 'image/jpeg', label: 'JPEG', lossy: true },
+  { mimeType: 'image/webp', label: 'WebP', lossy: true },
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/svg+xml': 'svg',
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+  EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'bin';
+
+export const formatLabel = (mimeType: string): string =>
+  extensionForMimeType(mimeType).toUpperCase();
+
+export const imageFilename = (id: string, mimeType: string): string =>
+  `gemini-image-${id}.${extensionForMimeType(mimeType)}`;
+
+/**
+ * Splits a data URL into its MIME type and base64 payload. Bare base64 strings
+ * are accepted too and reported with the fallback type.
+ */
+export const parseDataUrl = (dataUrl: string, fallbackMimeType = 'image/png'): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  if (!match) {
+    return { mimeType: fallbackMimeType, data: dataUrl };
+  }
+  return { mimeType: match[1] || fallbackMimeType, data: match[2] };
+};
+
+export const toDataUrl = (base64: string, mimeType: string): string =>
+  `data:${mimeType};base64,${base64}`;
+
+/** Size in bytes of the file a data URL encodes, without decoding it. */
+export const dataUrlByteSize = (dataUrl: string): number => {
+  const { data } = parseDataUrl(dataUrl);
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.slice(start, end));
+
+/**
+ * Identifies an image format from its leading bytes. Browsers report an empty
+ * or wrong `File.type` for HEIC and for renamed files, so the extension and the
+ * declared type are not trusted.
+ */
+export const sniffMimeType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(brand)) return 'image/heic';
+    if (brand === 'mif1' || brand === 'msf1') return 'image/heif';
+  }
+  return null;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image could not be decoded."));
+    img.src = src;
+  });
+
+/**
+ * Re-encodes an image to the given format through a canvas. JPEG has no alpha,
+ * so transparent areas are flattened onto white.
+ */
+export const convertImage = async (
+  dataUrl: string,
+  mimeType: ExportFormat,
+  quality = 0.92
+): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  if (mimeType === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL(mimeType, quality);
+};
+
+export const downloadDataUrl = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+};
+
+const readFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads an uploaded file into a data URL the models accept. The MIME type comes
+ * from the file contents; GIF, AVIF and HEIC/HEIF are converted to PNG.
+ */
+export const readImageFile = async (file: File): Promise<{ dataUrl: string; mimeType: string; originalMimeType: string }> => {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const originalMimeType = sniffMimeType(header) ?? file.type;
+  if (!originalMimeType.startsWith('image/')) {
+    throw new Error(`"${file.name}" is not a recognised image file.`);
+  }
+
+  const { data } = parseDataUrl(await readFile(file));
+  const dataUrl = toDataUrl(data, originalMimeType);
+  if (SUPPORTED_INPUT_TYPES.includes(originalMimeType)) {
+    return { dataUrl, mimeType: originalMimeType, originalMimeType };
+  }
+
+  try {
+    return { dataUrl: await convertImage(dataUrl, 'image/png'), mimeType: 'image/png', originalMimeType };
+  } catch {
+    throw new Error(`This browser cannot decode ${formatLabel(originalMimeType)} images. Please convert "${file.name}" to JPEG or PNG first.`);
+  }
+};
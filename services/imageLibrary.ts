@@ -0,0 +1,181 @@
+import { ImageResult, HistoryRun } from "../types";
+
+const DB_NAME = 'grid-library';
+const DB_VERSION = 1;
+const IMAGE_STORE = 'images';
+const SOURCE_STORE = 'sources';
+
+// Images are persisted with their pixel data as a Blob rather than a base64 string,
+// which keeps the database roughly a third smaller.
+interface StoredImage extends Omit<ImageResult, 'data'> {
+  data: Blob;
+}
+
+interface StoredSource {
+  id: string;
+  data: Blob;
+  timestamp: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          const images = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          images.createIndex('runId', 'runId');
+        }
+        if (!db.objectStoreNames.contains(SOURCE_STORE)) {
+          db.createObjectStore(SOURCE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toStored = async (image: ImageResult): Promise<StoredImage> => ({
+  ...image,
+  data: await dataUrlToBlob(image.data),
+});
+
+const fromStored = async (image: StoredImage): Promise<ImageResult> => ({
+  ...image,
+  data: await blobToDataUrl(image.data),
+});
+
+/**
+ * Persists generated images. Existing records with the same id are overwritten,
+ * so this is also used to update metadata such as the trash flag.
+ */
+export const saveImages = async (images: ImageResult[]): Promise<void> => {
+  // Blob conversion is async, so it has to finish before the transaction opens
+  // or IndexedDB will auto-commit an idle transaction.
+  const records = await Promise.all(images.map(toStored));
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+/**
+ * Loads every stored image, newest first, including the ones in the trash.
+ */
+export const listImages = async (): Promise<ImageResult[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const records = await promisify(tx.objectStore(IMAGE_STORE).getAll() as IDBRequest<StoredImage[]>);
+  const images = await Promise.all(records.map(fromStored));
+  return images.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Moves images in or out of the trash without touching their pixel data.
+ */
+export const setImagesDeleted = async (ids: string[], deleted: boolean): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  const deletedAt = deleted ? Date.now() : undefined;
+  for (const id of ids) {
+    const record = await promisify(store.get(id) as IDBRequest<StoredImage | undefined>);
+    if (record) {
+      store.put({ ...record, deletedAt });
+    }
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Permanently removes images from the library.
+ */
+export const purgeImages = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Stores an uploaded source image and returns the id results should reference it by.
+ */
+export const saveSourceImage = async (dataUrl: string): Promise<string> => {
+  const record: StoredSource = {
+    id: crypto.randomUUID(),
+    data: await dataUrlToBlob(dataUrl),
+    timestamp: Date.now(),
+  };
+  const db = await openDatabase();
+  const tx = db.transaction(SOURCE_STORE, 'readwrite');
+  tx.objectStore(SOURCE_STORE).put(record);
+  await transactionDone(tx);
+  return record.id;
+};
+
+export const getSourceImage = async (id: string): Promise<string | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SOURCE_STORE, 'readonly');
+  const record = await promisify(tx.objectStore(SOURCE_STORE).get(id) as IDBRequest<StoredSource | undefined>);
+  return record ? blobToDataUrl(record.data) : null;
+};
+
+/**
+ * Groups library images into runs, newest run first. Images without a run id
+ * (e.g. from before the library existed) are each treated as their own run.
+ */
+export const groupRuns = (images: ImageResult[]): HistoryRun[] => {
+  const runs = new Map<string, HistoryRun>();
+  for (const image of images) {
+    const runId = image.runId ?? image.id;
+    const run = runs.get(runId);
+    if (run) {
+      run.images.push(image);
+      run.createdAt = Math.min(run.createdAt, image.timestamp);
+    } else {
+      runs.set(runId, {
+        id: runId,
+        createdAt: image.timestamp,
+        sourceImageId: image.sourceImageId,
+        images: [image],
+      });
+    }
+  }
+  return [...runs.values()].sort((a, b) => b.createdAt - a.createdAt);
+};
@@ -0,0 +1,84 @@
+import { AspectRatio, GeneratedImage, GeneratedText, ImageSize, ReferenceImage } from "../types";
+import { config } from "./config";
+import { geminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+export interface GenerateRequest {
+  prompt: string;
+  size?: ImageSize;
+  aspectRatio?: AspectRatio;
+  references?: ReferenceImage[];
+  seed?: number;
+  temperature?: number;
+}
+
+export interface EditRequest {
+  image: string; // Data URL of the image to edit
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  references?: ReferenceImage[];
+}
+
+export interface UpscaleRequest {
+  image: string;
+  prompt: string;
+  size?: ImageSize;
+  aspectRatio?: AspectRatio; // Ratio of the source, so the upscale is not reframed
+}
+
+// One earlier step of a refinement conversation
+export interface RefineTurn {
+  instruction: string;
+  image: string; // Data URL of the image the instruction produced
+}
+
+export interface RefineRequest {
+  image: string; // The image the conversation started from
+  turns: RefineTurn[]; // Earlier instructions and their results, oldest first
+  prompt: string; // The new instruction
+  aspectRatio?: AspectRatio;
+}
+
+export interface InpaintRequest {
+  image: string;
+  mask: string; // Black-and-white mask, white = area to change
+  prompt: string;
+  aspectRatio?: AspectRatio;
+}
+
+/**
+ * A backend that can produce images. The app only talks to this interface, so
+ * the Gemini API can be swapped for the offline mock (or another service).
+ * Failures are thrown as GenerationError (see services/errors.ts).
+ */
+export interface ImageProvider {
+  id: string;
+  // Model name recorded on results for each operation
+  models: { generate: string; edit: string; upscale: string; text: string };
+  // Whether the AI Studio API key selection flow applies
+  requiresApiKey: boolean;
+  generate: (request: GenerateRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  edit: (request: EditRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  upscale: (request: UpscaleRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  inpaint: (request: InpaintRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  // Edits an image as the next turn of a conversation, with earlier turns as context
+  refine: (request: RefineRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  // Suggests a rewrite of a prompt that was blocked for `reason`
+  rephrase: (prompt: string, reason: string, signal?: AbortSignal) => Promise<GeneratedText>;
+}
+
+let provider: ImageProvider | null = null;
+
+/**
+ * Returns the provider selected by `IMAGE_PROVIDER` (see services/config.ts).
+ */
+export const getImageProvider = (): ImageProvider => {
+  if (!provider) {
+    provider =
+      config.provider === 'mock' ? createMockProvider(config.mock)
+      : config.provider === 'proxy' ? createProxyProvider(config.proxy.url)
+      : geminiProvider;
+  }
+  return provider;
+};
@@ -0,0 +1,60 @@
+import { loadImage } from "./imageFormat";
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+/**
+ * Converts an editor mask (opaque where painted, transparent elsewhere) into the
+ * black-and-white image the model is given: white marks the area to change.
+ */
+export const maskToBlackAndWhite = async (maskDataUrl: string): Promise<string> => {
+  const mask = await loadImage(maskDataUrl);
+  const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Blends the model's output into the original image only inside the mask.
+ * The mask edge is blurred by `featherPx` (at the original's resolution) so the
+ * edit fades into the untouched pixels instead of ending at a hard seam. The
+ * generated image is stretched to the original's size in case the model
+ * returned a different resolution.
+ */
+export const compositeWithMask = async (
+  originalDataUrl: string,
+  generatedDataUrl: string,
+  maskDataUrl: string,
+  featherPx: number
+): Promise<string> => {
+  const [original, generated, mask] = await Promise.all([
+    loadImage(originalDataUrl),
+    loadImage(generatedDataUrl),
+    loadImage(maskDataUrl),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const layer = createCanvas(width, height);
+  layer.ctx.drawImage(generated, 0, 0, width, height);
+  layer.ctx.globalCompositeOperation = 'destination-in';
+  if (featherPx > 0) layer.ctx.filter = `blur(${featherPx}px)`;
+  layer.ctx.drawImage(mask, 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  output.ctx.drawImage(original, 0, 0);
+  output.ctx.drawImage(layer.canvas, 0, 0);
+  return output.canvas.toDataURL('image/png');
+};
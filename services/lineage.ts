@@ -0,0 +1,48 @@
+import { ImageResult, LineageNode } from "../types";
+
+/**
+ * Returns the chain of library images the given image was derived from, oldest
+ * first, following the first parent at each step. Missing (purged) ancestors end
+ * the chain.
+ */
+export const getAncestors = (image: ImageResult, library: ImageResult[]): ImageResult[] => {
+  const byId = new Map(library.map(img => [img.id, img]));
+  const ancestors: ImageResult[] = [];
+  const seen = new Set([image.id]);
+  let parentId = image.parentIds?.[0];
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.parentIds?.[0];
+  }
+  return ancestors;
+};
+
+/**
+ * Builds the tree of images derived from `root`, oldest children first.
+ * Images in the trash are left out.
+ */
+export const getDescendantTree = (root: ImageResult, library: ImageResult[]): LineageNode => {
+  const children = new Map<string, ImageResult[]>();
+  for (const img of library) {
+    if (img.deletedAt) continue;
+    for (const parentId of img.parentIds ?? []) {
+      children.set(parentId, [...(children.get(parentId) ?? []), img]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const build = (image: ImageResult): LineageNode => {
+    seen.add(image.id);
+    return {
+      image,
+      children: (children.get(image.id) ?? [])
+        .filter(child => !seen.has(child.id))
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(build),
+    };
+  };
+  return build(root);
+};
@@ -0,0 +1,127 @@
+import { AspectRatio, GeneratedImage, ImageSize } from "../types";
+import type { ImageProvider } from "./imageProvider";
+import { GenerationError } from "./errors";
+
+export interface MockProviderOptions {
+  latencyMs?: number;
+  failureRate?: number; // 0-1
+  seed?: number; // Seeds the failure sequence so runs are reproducible
+}
+
+const BASE_SIZE: Record<ImageSize, number> = {
+  [ImageSize.SIZE_1K]: 1024,
+  [ImageSize.SIZE_2K]: 2048,
+  [ImageSize.SIZE_4K]: 4096,
+};
+
+// FNV-1a, used to derive a stable color from the prompt
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG so simulated failures are deterministic
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const dimensions = (aspectRatio: AspectRatio, size: ImageSize) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const base = BASE_SIZE[size];
+  return w >= h
+    ? { width: base, height: Math.round(base * h / w) }
+    : { width: Math.round(base * w / h), height: base };
+};
+
+/**
+ * Renders a labelled SVG placeholder. The same operation and prompt always
+ * produce the same image.
+ */
+export const createPlaceholderImage = (
+  operation: string,
+  prompt: string,
+  aspectRatio: AspectRatio = '1:1',
+  size: ImageSize = ImageSize.SIZE_1K
+): GeneratedImage => {
+  const { width, height } = dimensions(aspectRatio, size);
+  const hue = hash(`${operation}:${prompt}`) % 360;
+  const fontSize = Math.round(Math.min(width, height) / 16);
+  const label = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,25%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#g)"/>`
+    + `<text x="50%" y="45%" fill="#fff" font-family="sans-serif" font-size="${fontSize * 1.5}" font-weight="bold" text-anchor="middle">MOCK ${escapeXml(operation.toUpperCase())}</text>`
+    + `<text x="50%" y="58%" fill="#fff" fill-opacity="0.8" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle">${label}</text>`
+    + `</svg>`;
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return { data: `data:image/svg+xml;base64,${btoa(binary)}`, mimeType: 'image/svg+xml' };
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    };
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+/**
+ * An offline provider for development and tests. It needs no key or network,
+ * waits `latencyMs` per request and fails a seeded `failureRate` share of
+ * requests with a retryable 503.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ImageProvider => {
+  const { latencyMs = 0, failureRate = 0, seed = 1 } = options;
+  const random = createRandom(seed);
+
+  const respond = async (
+    operation: string,
+    prompt: string,
+    signal?: AbortSignal,
+    aspectRatio?: AspectRatio,
+    size?: ImageSize
+  ): Promise<GeneratedImage> => {
+    const fails = random() < failureRate;
+    if (latencyMs > 0) await delay(latencyMs, signal);
+    if (signal?.aborted) throw new DOMException('The request was aborted.', 'AbortError');
+    if (fails) throw new GenerationError('server', `Mock provider: simulated UNAVAILABLE for ${operation}.`, { status: 503 });
+    return createPlaceholderImage(operation, prompt, aspectRatio, size);
+  };
+
+  return {
+    id: 'mock',
+    models: { generate: 'mock-pro', edit: 'mock-flash', upscale: 'mock-pro', text: 'mock-text' },
+    requiresApiKey: false,
+    // The seed is part of the label so candidates of one prompt look different
+    generate: ({ prompt, size, aspectRatio, seed }, signal) =>
+      respond('generate', seed === undefined ? prompt : `${prompt} #${seed}`, signal, aspectRatio, size),
+    edit: ({ prompt, aspectRatio }, signal) => respond('edit', prompt, signal, aspectRatio),
+    upscale: ({ prompt, size, aspectRatio }, signal) => respond('upscale', prompt, signal, aspectRatio, size),
+    inpaint: ({ prompt, aspectRatio }, signal) => respond('inpaint', prompt, signal, aspectRatio),
+    refine: ({ prompt, turns, aspectRatio }, signal) => respond(`refine ${turns.length + 1}`, prompt, signal, aspectRatio),
+    rephrase: async (prompt, _reason, signal) => {
+      if (latencyMs > 0) await delay(latencyMs, signal);
+      return { text: `A tasteful, family-friendly depiction of ${prompt}` };
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractVariables,
+  missingVariables,
+  fillTemplate,
+  parseAvoidList,
+  composePrompt,
+  createPromptRecipe,
+  DEFAULT_PROMPT_OPTIONS,
+} from './promptTemplates';
+
+describe('template variables', () => {
+  it('lists each variable once in order of use', () => {
+    expect(extractVariables('{{subject}} with {{ style }}, {{subject}} again, {{time of day}}'))
+      .toEqual(['subject', 'style', 'time of day']);
+  });
+
+  it('fills known variables and reports the empty ones', () => {
+    const values = { subject: ' a red fox ', lighting: '' };
+
+    expect(fillTemplate('{{subject}} in {{lighting}} light', values)).toBe('a red fox in {{lighting}} light');
+    expect(missingVariables('{{subject}} in {{lighting}} light', values)).toEqual(['lighting']);
+  });
+});
+
+describe('composePrompt', () => {
+  it('leaves a plain prompt as typed', () => {
+    expect(composePrompt('a red fox', DEFAULT_PROMPT_OPTIONS)).toBe('a red fox');
+  });
+
+  it('joins extra parts and the style without doubled punctuation', () => {
+    const options = { ...DEFAULT_PROMPT_OPTIONS, styleId: 'cinematic' };
+
+    expect(composePrompt('a red fox.', options, ['viewed from a low angle, '])).toBe(
+      'a red fox, viewed from a low angle, cinematic still, anamorphic lens, film grain, dramatic color grading'
+    );
+  });
+
+  it('merges the avoid list with the style avoidances', () => {
+    const options = { variables: {}, styleId: 'anime', negativePrompt: 'text,\nPhoto, watermark' };
+
+    expect(composePrompt('a fox', options)).toBe(
+      'a fox, anime style, clean line art, cel shading, vibrant colors. Avoid: text, Photo, watermark, realistic skin texture.'
+    );
+    expect(parseAvoidList(' , a,, b ,A ')).toEqual(['a', 'b']);
+  });
+});
+
+describe('createPromptRecipe', () => {
+  it('is only recorded when the prompt was composed', () => {
+    expect(createPromptRecipe('a red fox', DEFAULT_PROMPT_OPTIONS)).toBeUndefined();
+    expect(createPromptRecipe('{{subject}}', { ...DEFAULT_PROMPT_OPTIONS, variables: { subject: 'fox', unused: 'x' } })).toEqual({
+      template: '{{subject}}',
+      variables: { subject: 'fox' },
+      styleId: 'none',
+      negativePrompt: '',
+    });
+  });
+});
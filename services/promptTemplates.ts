@@ -0,0 +1,129 @@
+import { PromptOptions, PromptRecipe, PromptTemplate, StylePreset } from "../types";
+
+const TEMPLATES_KEY = 'grid-prompt-templates';
+
+export const NO_STYLE_ID = 'none';
+
+export const DEFAULT_PROMPT_OPTIONS: PromptOptions = {
+  variables: {},
+  styleId: NO_STYLE_ID,
+  negativePrompt: '',
+};
+
+// Variables offered as one-click inserts; any other {{name}} works too
+export const COMMON_VARIABLES = ['subject', 'style', 'lighting'];
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: NO_STYLE_ID, name: 'No style', suffix: '' },
+  { id: 'photo', name: 'Photorealistic', suffix: 'photorealistic, natural colors, sharp focus, 50mm lens', avoid: 'illustration, cartoon' },
+  { id: 'cinematic', name: 'Cinematic', suffix: 'cinematic still, anamorphic lens, film grain, dramatic color grading' },
+  { id: 'watercolor', name: 'Watercolor', suffix: 'watercolor painting, soft washes, visible paper texture', avoid: 'photo, hard edges' },
+  { id: 'anime', name: 'Anime', suffix: 'anime style, clean line art, cel shading, vibrant colors', avoid: 'photo, realistic skin texture' },
+  { id: '3d', name: '3D render', suffix: '3D render, octane, soft global illumination, subsurface scattering' },
+  { id: 'line-art', name: 'Line art', suffix: 'black ink line art, minimal shading, white background', avoid: 'color, gradients' },
+];
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'product-shot',
+    name: 'Product shot',
+    text: '{{subject}} on a {{background}} background, {{lighting}} lighting, studio product photography',
+    negativePrompt: 'text, watermark, clutter',
+  },
+  {
+    id: 'character-portrait',
+    name: 'Character portrait',
+    text: 'Portrait of {{subject}}, {{style}}, {{lighting}} lighting, shallow depth of field',
+  },
+  {
+    id: 'landscape',
+    name: 'Landscape',
+    text: '{{subject}} at {{time of day}}, {{style}}, {{lighting}} light, wide vista',
+    negativePrompt: 'people, text',
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Names of the {{variables}} in a template, in order of first use. */
+export const extractVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+
+/** Variables of `text` that have no value yet. */
+export const missingVariables = (text: string, values: Record<string, string>): string[] =>
+  extractVariables(text).filter(name => !values[name]?.trim());
+
+/** Replaces each {{variable}} with its value; unknown variables are left as they are. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (match, name: string) => values[name]?.trim() || match);
+
+/** Splits a comma or newline separated list, dropping blanks and case-insensitive repeats. */
+export const parseAvoidList = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text.split(/[,\n]/).map(item => item.trim()).filter(item => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Joins prompt fragments with commas, without doubled or trailing punctuation. */
+export const joinPromptParts = (parts: string[]): string =>
+  parts.map(part => part.trim().replace(/[\s,;.]+$/, '')).filter(Boolean).join(', ');
+
+export const findStylePreset = (id: string): StylePreset =>
+  STYLE_PRESETS.find(s => s.id === id) ?? STYLE_PRESETS[0];
+
+/**
+ * Builds the prompt that is sent to the model: the filled template, any `extraParts`
+ * (such as an angle's camera description), the style preset and an "Avoid:" clause.
+ * The image models have no negative prompt parameter, so avoidances go in the text.
+ */
+export const composePrompt = (text: string, options: PromptOptions, extraParts: string[] = []): string => {
+  const style = findStylePreset(options.styleId);
+  const body = joinPromptParts([fillTemplate(text, options.variables), ...extraParts, style.suffix]);
+  const avoid = parseAvoidList([options.negativePrompt, style.avoid ?? ''].join(','));
+  return avoid.length > 0 ? `${body}. Avoid: ${avoid.join(', ')}.` : body;
+};
+
+/**
+ * The inputs of a composed prompt, or undefined when the prompt was sent as typed.
+ * Only the variables the template uses are kept.
+ */
+export const createPromptRecipe = (text: string, options: PromptOptions): PromptRecipe | undefined => {
+  const names = extractVariables(text);
+  if (names.length === 0 && options.styleId === NO_STYLE_ID && !options.negativePrompt.trim()) return undefined;
+  return {
+    template: text,
+    variables: Object.fromEntries(names.map(name => [name, options.variables[name]?.trim() ?? ''])),
+    styleId: options.styleId,
+    negativePrompt: options.negativePrompt.trim(),
+  };
+};
+
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (raw) {
+      const templates = JSON.parse(raw);
+      if (Array.isArray(templates)) {
+        return templates.filter(t => t && typeof t.name === 'string' && typeof t.text === 'string');
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load prompt templates", e);
+  }
+  return DEFAULT_TEMPLATES;
+};
+
+export const savePromptTemplates = (templates: PromptTemplate[]): void => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const createTemplate = (name: string, text: string, negativePrompt?: string): PromptTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  text,
+  negativePrompt: negativePrompt?.trim() || undefined,
+});
@@ -0,0 +1,40 @@
+import { GeneratedImage, GeneratedText } from "../types";
+import type { ImageProvider } from "./imageProvider";
+import { config } from "./config";
+import { classifyError, fromErrorPayload } from "./errors";
+
+/**
+ * Provider that sends every request to the API proxy in server/ instead of
+ * calling Gemini from the browser, so the key never reaches the client. Errors
+ * come back as payloads and are rebuilt into the same typed errors.
+ */
+export const createProxyProvider = (baseUrl = ''): ImageProvider => {
+  const post = async <T>(operation: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/api/${operation}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err) {
+      throw classifyError(err);
+    }
+    const payload = await response.json().catch(() => undefined);
+    if (!response.ok) throw fromErrorPayload(payload?.error, response.status);
+    return payload as T;
+  };
+
+  return {
+    id: 'proxy',
+    models: { generate: config.models.pro, edit: config.models.flash, upscale: config.models.pro, text: config.models.text },
+    requiresApiKey: false,
+    generate: (request, signal) => post<GeneratedImage>('generate', request, signal),
+    edit: (request, signal) => post<GeneratedImage>('edit', request, signal),
+    upscale: (request, signal) => post<GeneratedImage>('upscale', request, signal),
+    inpaint: (request, signal) => post<GeneratedImage>('inpaint', request, signal),
+    refine: (request, signal) => post<GeneratedImage>('refine', request, signal),
+    rephrase: (prompt, reason, signal) => post<GeneratedText>('rephrase', { prompt, reason }, signal),
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getBranches, getRefinementThread, latestTurn, toRefineTurns } from './refinement';
+import { ImageResult } from '../types';
+
+const image = (id: string, parentId?: string, timestamp = 0): ImageResult => ({
+  id,
+  data: `data:image/png;base64,${id}`,
+  mimeType: 'image/png',
+  prompt: id,
+  model: 'm',
+  timestamp,
+  parentIds: parentId ? [parentId] : undefined,
+  operation: parentId ? { type: 'refine', params: { prompt: `make ${id}` } } : { type: 'generate', params: { prompt: id } },
+});
+
+// base -> warm -> chair, and a second branch warm -> hat
+const base = image('base');
+const warm = image('warm', 'base', 1);
+const chair = image('chair', 'warm', 2);
+const hat = image('hat', 'warm', 3);
+const library = [base, warm, chair, hat];
+
+describe('getRefinementThread', () => {
+  it('collects the refinements leading to an image and the image they started from', () => {
+    expect(getRefinementThread(chair, library)).toEqual({ base, turns: [warm, chair] });
+    expect(getRefinementThread(base, library)).toEqual({ base, turns: [] });
+  });
+
+  it('stops at the first image that is not a refinement', () => {
+    const upscaled: ImageResult = { ...image('big', 'chair', 4), operation: { type: 'upscale', params: { prompt: 'x' } } };
+    const again = image('again', 'big', 5);
+    expect(getRefinementThread(again, [...library, upscaled, again])).toEqual({ base: upscaled, turns: [again] });
+  });
+
+  it('has no base when the starting image was purged', () => {
+    expect(getRefinementThread(chair, [warm, chair]).base).toBeUndefined();
+  });
+});
+
+describe('toRefineTurns', () => {
+  it('pairs each instruction with its result', () => {
+    expect(toRefineTurns([warm])).toEqual([{ instruction: 'make warm', image: warm.data }]);
+  });
+});
+
+describe('branches', () => {
+  it('lists the alternatives of a turn in the order they were made', () => {
+    expect(getBranches(hat, library)).toEqual([chair, hat]);
+    expect(getBranches(warm, library)).toEqual([warm]);
+  });
+
+  it('leaves trashed branches out', () => {
+    expect(getBranches(chair, [base, warm, chair, { ...hat, deletedAt: 9 }])).toEqual([chair]);
+  });
+
+  it('follows the newest turn to the end of a branch', () => {
+    expect(latestTurn(base, library)).toBe(hat);
+    expect(latestTurn(chair, library)).toBe(chair);
+  });
+});
@@ -0,0 +1,57 @@
+import { ImageResult } from "../types";
+import type { RefineTurn } from "./imageProvider";
+import { getAncestors } from "./lineage";
+
+const isRefinement = (image: ImageResult) => image.operation?.type === 'refine';
+
+export interface RefinementThread {
+  base?: ImageResult; // Image the conversation started from; missing if it was purged
+  turns: ImageResult[]; // Refinement results leading to the image, oldest first
+}
+
+/**
+ * The conversation an image belongs to: the unbroken chain of refinements
+ * ending at the image, and the image that chain started from. An image that is
+ * not a refinement starts a new conversation with no turns.
+ */
+export const getRefinementThread = (image: ImageResult, library: ImageResult[]): RefinementThread => {
+  const chain = [...getAncestors(image, library), image];
+  let start = chain.length;
+  while (start > 0 && isRefinement(chain[start - 1])) start--;
+  const turns = chain.slice(start);
+  // A missing parent of the first turn means the base was purged
+  const base = start > 0 ? chain[start - 1] : undefined;
+  return { base: turns.length === 0 ? image : base, turns };
+};
+
+/** Turns as the provider takes them: each instruction with the image it produced. */
+export const toRefineTurns = (turns: ImageResult[]): RefineTurn[] =>
+  turns.map(turn => ({ instruction: turn.operation?.params.prompt ?? turn.prompt, image: turn.data }));
+
+const refinementsOf = (parentId: string, library: ImageResult[]) =>
+  library
+    .filter(img => isRefinement(img) && !img.deletedAt && img.parentIds?.[0] === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/** Alternative turns sent from the same point of the conversation, oldest first. */
+export const getBranches = (turn: ImageResult, library: ImageResult[]): ImageResult[] => {
+  const parentId = turn.parentIds?.[0];
+  return parentId ? refinementsOf(parentId, library) : [turn];
+};
+
+/** Follows the newest refinement at each step, so switching branches lands on its latest turn. */
+export const latestTurn = (image: ImageResult, library: ImageResult[]): ImageResult => {
+  const seen = new Set<string>();
+  let current = image;
+  while (!seen.has(current.id)) {
+    seen.add(current.id);
+    const next = refinementsOf(current.id, library).pop();
+    if (!next) break;
+    current = next;
+  }
+  return current;
+};
+
+/** Whether sending a new instruction from this image would start a branch. */
+export const hasRefinements = (image: ImageResult, library: ImageResult[]): boolean =>
+  refinementsOf(image.id, library).length > 0;
@@ -0,0 +1,127 @@
+import { ImageResult } from "../types";
+import { createZip, base64ToBytes, ZipEntry } from "./zipArchive";
+import { parseDataUrl, extensionForMimeType } from "./imageFormat";
+
+export interface ManifestEntry {
+  file: string;
+  id: string;
+  prompt: string;
+  angle: string | null;
+  model: string;
+  mimeType: string;
+  aspectRatio: string | null;
+  size: string | null;
+  timestamp: string; // ISO 8601
+  parentId: string | null;
+  operation: string | null;
+  candidate: number | null; // 1-based candidate number in multi-candidate runs
+  seed: number | null;
+  winner: boolean;
+}
+
+export interface RunManifest {
+  runId: string | null;
+  exportedAt: string;
+  source: { file: string; id: string | null } | null;
+  images: ManifestEntry[];
+}
+
+export interface BatchManifest {
+  exportedAt: string;
+  sources: { name: string; folder: string; runId: string | null; images: number }[];
+}
+
+export interface RunSource {
+  dataUrl: string;
+  id: string | null;
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'image';
+
+const dataUrlEntry = (name: string, dataUrl: string, date?: Date): ZipEntry => ({
+  name,
+  data: base64ToBytes(parseDataUrl(dataUrl).data),
+  date,
+});
+
+const jsonEntry = (name: string, value: unknown): ZipEntry => ({
+  name,
+  data: new TextEncoder().encode(JSON.stringify(value, null, 2)),
+});
+
+// Entries for one run, with names relative to `folder` (empty or ending in "/")
+const runEntries = (images: ImageResult[], source: RunSource | undefined, folder: string): ZipEntry[] => {
+  const entries: ZipEntry[] = [];
+  const width = String(images.length).length;
+
+  let sourceFile: string | null = null;
+  if (source) {
+    const { mimeType } = parseDataUrl(source.dataUrl);
+    sourceFile = `source.${extensionForMimeType(mimeType)}`;
+    entries.push(dataUrlEntry(`${folder}${sourceFile}`, source.dataUrl));
+  }
+
+  const manifestImages = images.map((img, i): ManifestEntry => {
+    const label = img.angle?.name
+      ?? (img.candidate ? `candidate-${img.candidate.index + 1}` : img.operation?.type === 'upscale' ? 'upscaled' : 'generated');
+    const file = `${String(i + 1).padStart(width, '0')}-${slugify(label)}.${extensionForMimeType(img.mimeType)}`;
+    entries.push(dataUrlEntry(`${folder}${file}`, img.data, new Date(img.timestamp)));
+    return {
+      file,
+      id: img.id,
+      prompt: img.prompt,
+      angle: img.angle?.name ?? null,
+      model: img.model,
+      mimeType: img.mimeType,
+      aspectRatio: img.aspectRatio ?? null,
+      size: img.size ?? null,
+      timestamp: new Date(img.timestamp).toISOString(),
+      // Angle variations derive from the uploaded source rather than another result
+      parentId: img.parentIds?.[0] ?? img.sourceImageId ?? null,
+      operation: img.operation?.type ?? null,
+      candidate: img.candidate ? img.candidate.index + 1 : null,
+      seed: img.operation?.params.seed ?? null,
+      winner: !!img.winner,
+    };
+  });
+
+  const manifest: RunManifest = {
+    runId: images[0]?.runId ?? null,
+    exportedAt: new Date().toISOString(),
+    source: sourceFile ? { file: sourceFile, id: source?.id ?? null } : null,
+    images: manifestImages,
+  };
+  entries.push(jsonEntry(`${folder}manifest.json`, manifest));
+  return entries;
+};
+
+/**
+ * Packages a run into a ZIP: one file per image (numbered in grid order and named
+ * after the angle), the optional source image and a manifest.json describing each
+ * file, so downstream tools can ingest the run without renaming anything.
+ */
+export const buildRunArchive = (images: ImageResult[], source?: RunSource): Blob =>
+  createZip(runEntries(images, source, ''));
+
+/**
+ * Packages a batch into one ZIP with a folder per source, each laid out like a run
+ * archive, plus a batch.json listing the folders.
+ */
+export const buildBatchArchive = (runs: { name: string; images: ImageResult[]; source?: RunSource }[]): Blob => {
+  const width = String(runs.length).length;
+  const folders = runs.map((run, i) => `${String(i + 1).padStart(width, '0')}-${slugify(run.name.replace(/\.[^.]+$/, ''))}/`);
+  const manifest: BatchManifest = {
+    exportedAt: new Date().toISOString(),
+    sources: runs.map((run, i) => ({
+      name: run.name,
+      folder: folders[i],
+      runId: run.images[0]?.runId ?? null,
+      images: run.images.length,
+    })),
+  };
+  return createZip([
+    ...runs.flatMap((run, i) => runEntries(run.images, run.source, folders[i])),
+    jsonEntry('batch.json', manifest),
+  ]);
+};
@@ -0,0 +1,21 @@
+import { AngleFailure, AngleRef, ImageResult } from "../types";
+
+export interface RunTile {
+  key: string;
+  image?: ImageResult;
+  angle?: AngleRef;
+  error?: string;
+  modelText?: string;
+}
+
+/**
+ * Grid tiles for one run: one per angle (image or failure placeholder), in angle
+ * order, with non-angle results such as upscales first.
+ */
+export const buildRunTiles = (images: ImageResult[], failures: AngleFailure[], runId: string | null): RunTile[] => {
+  const tiles: RunTile[] = images.map(image => ({ key: image.id, image, angle: image.angle }));
+  failures
+    .filter(f => f.runId === runId && !images.some(img => img.angle?.id === f.angle.id))
+    .forEach(f => tiles.push({ key: `failed-${f.angle.id}`, angle: f.angle, error: f.error, modelText: f.modelText }));
+  return tiles.sort((a, b) => (a.angle?.index ?? -1) - (b.angle?.index ?? -1));
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { formatKey, isTypingTarget, matchShortcut, navigateIndex } from './shortcuts';
+
+const press = (key: string, modifiers: Partial<{ ctrlKey: boolean; metaKey: boolean; altKey: boolean }> = {}) =>
+  ({ key, ctrlKey: false, metaKey: false, altKey: false, ...modifiers });
+
+describe('shortcuts', () => {
+  it('matches keys within their scope', () => {
+    expect(matchShortcut(press('ArrowRight'), 'viewer')).toBe('next');
+    expect(matchShortcut(press('k'), 'viewer')).toBe('previous');
+    expect(matchShortcut(press('U'), 'viewer')).toBe('upscale');
+    expect(matchShortcut(press('Enter'), 'grid')).toBe('open');
+    expect(matchShortcut(press('Enter'), 'viewer')).toBeNull();
+    expect(matchShortcut(press('?'), 'global')).toBe('help');
+  });
+
+  it('leaves modified key presses to the browser', () => {
+    expect(matchShortcut(press('d', { metaKey: true }), 'viewer')).toBeNull();
+    expect(matchShortcut(press('+', { ctrlKey: true }), 'viewer')).toBeNull();
+  });
+
+  it('recognizes form fields as typing targets', () => {
+    expect(isTypingTarget(document.createElement('textarea'))).toBe(true);
+    expect(isTypingTarget(document.createElement('select'))).toBe(true);
+    expect(isTypingTarget(document.createElement('button'))).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+
+  it('clamps navigation to the ends of the list', () => {
+    expect(navigateIndex(0, 'previous', 5)).toBe(0);
+    expect(navigateIndex(4, 'next', 5)).toBe(4);
+    expect(navigateIndex(2, 'next', 5)).toBe(3);
+    expect(navigateIndex(2, 'last', 5)).toBe(4);
+    expect(navigateIndex(0, 'next', 0)).toBe(-1);
+  });
+
+  it('formats keys for the cheat sheet', () => {
+    expect(formatKey('ArrowLeft')).toBe('←');
+    expect(formatKey(' ')).toBe('Space');
+    expect(formatKey('u')).toBe('U');
+  });
+});
@@ -0,0 +1,103 @@
+export type ShortcutAction =
+  | 'next'
+  | 'previous'
+  | 'first'
+  | 'last'
+  | 'open'
+  | 'close'
+  | 'upscale'
+  | 'download'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomActual'
+  | 'zoomFit'
+  | 'compare'
+  | 'help';
+
+// Where a shortcut applies: the results grid, the image viewer, or anywhere
+export type ShortcutScope = 'grid' | 'viewer' | 'global';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  scope: ShortcutScope;
+  keys: string[]; // KeyboardEvent.key values
+  label: string;
+}
+
+/** Every keyboard shortcut, in the order the cheat sheet lists them. */
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'next', scope: 'grid', keys: ['ArrowRight', 'ArrowDown'], label: 'Next image' },
+  { action: 'previous', scope: 'grid', keys: ['ArrowLeft', 'ArrowUp'], label: 'Previous image' },
+  { action: 'first', scope: 'grid', keys: ['Home'], label: 'First image' },
+  { action: 'last', scope: 'grid', keys: ['End'], label: 'Last image' },
+  { action: 'open', scope: 'grid', keys: ['Enter', ' '], label: 'Open in the viewer' },
+  { action: 'next', scope: 'viewer', keys: ['ArrowRight', 'j'], label: 'Next image' },
+  { action: 'previous', scope: 'viewer', keys: ['ArrowLeft', 'k'], label: 'Previous image' },
+  { action: 'first', scope: 'viewer', keys: ['Home'], label: 'First image' },
+  { action: 'last', scope: 'viewer', keys: ['End'], label: 'Last image' },
+  { action: 'upscale', scope: 'viewer', keys: ['u'], label: 'Upscale to 4K' },
+  { action: 'download', scope: 'viewer', keys: ['d'], label: 'Download the original' },
+  { action: 'zoomIn', scope: 'viewer', keys: ['+', '='], label: 'Zoom in' },
+  { action: 'zoomOut', scope: 'viewer', keys: ['-'], label: 'Zoom out' },
+  { action: 'zoomActual', scope: 'viewer', keys: ['1'], label: 'Actual pixels (100%)' },
+  { action: 'zoomFit', scope: 'viewer', keys: ['0'], label: 'Fit to view' },
+  { action: 'compare', scope: 'viewer', keys: ['c'], label: 'Compare with the previous version' },
+  { action: 'close', scope: 'viewer', keys: ['Escape'], label: 'Close the viewer' },
+  { action: 'help', scope: 'global', keys: ['?'], label: 'Show keyboard shortcuts' },
+];
+
+export const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  grid: 'Results grid',
+  viewer: 'Image viewer',
+  global: 'Anywhere',
+};
+
+/**
+ * The action a key press triggers in a scope, or null. Presses with Ctrl, Cmd
+ * or Alt are left to the browser. Letters match in either case.
+ */
+export const matchShortcut = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+  scope: ShortcutScope
+): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const shortcut = SHORTCUTS.find(s => s.scope === scope && s.keys.includes(key));
+  return shortcut?.action ?? null;
+};
+
+/** Whether a key press goes to a form field, where keys must keep their usual meaning. */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  if (!el?.tagName) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable === true;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  ' ': 'Space',
+};
+
+export const formatKey = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/** Index reached by a navigation action, clamped to the list rather than wrapping. */
+export const navigateIndex = (index: number, action: ShortcutAction, length: number): number => {
+  if (length === 0) return -1;
+  switch (action) {
+    case 'next': return Math.min(length - 1, index + 1);
+    case 'previous': return Math.max(0, index - 1);
+    case 'first': return 0;
+    case 'last': return length - 1;
+    default: return index;
+  }
+};
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Elements inside a container that Tab can reach, in document order. */
+export const getFocusable = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => !el.closest('[inert], [hidden]'));
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeline, frameAt, moveItem, playbackOrder, timelineDuration } from './turnaround';
+
+describe('turnaround', () => {
+  it('moves an item to a new position', () => {
+    expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveItem(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('plays views in order, or forward and back without repeating the ends', () => {
+    expect(playbackOrder(4, 'loop')).toEqual([0, 1, 2, 3]);
+    expect(playbackOrder(4, 'pingpong')).toEqual([0, 1, 2, 3, 2, 1]);
+    expect(playbackOrder(2, 'pingpong')).toEqual([0, 1]);
+  });
+
+  it('holds each view and crossfades into the next, back round to the first', () => {
+    const timeline = buildTimeline(3, { frameMs: 600, crossfadeMs: 200, mode: 'loop' });
+
+    expect(timelineDuration(timeline)).toBe(1800);
+    expect(timeline[0]).toEqual({ from: 0, to: 1, mix: 0, durationMs: 400 });
+    expect(timeline.slice(1, 5).map(f => f.mix)).toEqual([0.125, 0.375, 0.625, 0.875]);
+    expect(timeline[timeline.length - 1]).toMatchObject({ from: 2, to: 0 });
+  });
+
+  it('cuts between views without a crossfade', () => {
+    const timeline = buildTimeline(3, { frameMs: 500, crossfadeMs: 0, mode: 'pingpong' });
+
+    expect(timeline.map(f => [f.from, f.mix, f.durationMs])).toEqual([[0, 0, 500], [1, 0, 500], [2, 0, 500], [1, 0, 500]]);
+  });
+
+  it('finds the frame on screen at a point in time, repeating the cycle', () => {
+    const timeline = buildTimeline(2, { frameMs: 1000, crossfadeMs: 0, mode: 'loop' });
+
+    expect(frameAt(timeline, 999).from).toBe(0);
+    expect(frameAt(timeline, 1000).from).toBe(1);
+    expect(frameAt(timeline, 2500).from).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+import { loadImage } from "./imageFormat";
+import { createGifEncoder } from "./gifEncoder";
+import { muxAnimatedWebp, WebpFrame } from "./webpAnimation";
+
+export type TurnaroundFormat = 'image/gif' | 'image/webp' | 'video/webm';
+
+// Loop plays the views in order and wraps around; ping-pong plays them forward and back
+export type PlaybackMode = 'loop' | 'pingpong';
+
+export interface TurnaroundOptions {
+  frameMs: number; // Time each view is on screen, including its crossfade into the next
+  crossfadeMs: number; // 0 cuts straight to the next view
+  mode: PlaybackMode;
+  width: number; // Output width in px; height follows from the first image
+  format: TurnaroundFormat;
+}
+
+export const DEFAULT_TURNAROUND_OPTIONS: TurnaroundOptions = {
+  frameMs: 600,
+  crossfadeMs: 200,
+  mode: 'loop',
+  width: 720,
+  format: 'image/gif',
+};
+
+export const TURNAROUND_FORMATS: { format: TurnaroundFormat; label: string }[] = [
+  { format: 'image/gif', label: 'GIF' },
+  { format: 'image/webp', label: 'WebP' },
+  { format: 'video/webm', label: 'WebM video' },
+];
+
+// Crossfades are rendered as blended frames about this far apart
+const CROSSFADE_STEP_MS = 50;
+const WEBP_QUALITY = 0.9;
+const BACKGROUND = '#000000';
+
+export interface TurnaroundFrame {
+  from: number; // Index into the sequence of the view shown
+  to: number; // View being faded in
+  mix: number; // 0-1, share of `to` in the frame
+  durationMs: number;
+}
+
+/** Moves one item to another position, shifting the items in between. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+/** Indexes of the views in the order they are played in one cycle. */
+export const playbackOrder = (count: number, mode: PlaybackMode): number[] => {
+  const forward = Array.from({ length: count }, (_, i) => i);
+  // The ends are not repeated, so each turn of the cycle shows every view for the same time
+  return mode === 'pingpong' ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+};
+
+/**
+ * One cycle of the animation as discrete frames: each view is held, then
+ * crossfaded into the next in short blended steps. The last view fades into
+ * the first, so the cycle loops seamlessly.
+ */
+export const buildTimeline = (count: number, options: Pick<TurnaroundOptions, 'frameMs' | 'crossfadeMs' | 'mode'>): TurnaroundFrame[] => {
+  const order = playbackOrder(count, options.mode);
+  const crossfadeMs = Math.min(Math.max(0, options.crossfadeMs), options.frameMs);
+  const timeline: TurnaroundFrame[] = [];
+
+  order.forEach((from, i) => {
+    const to = order[(i + 1) % order.length];
+    if (to === from || crossfadeMs === 0) {
+      timeline.push({ from, to, mix: 0, durationMs: options.frameMs });
+      return;
+    }
+    if (options.frameMs > crossfadeMs) {
+      timeline.push({ from, to, mix: 0, durationMs: options.frameMs - crossfadeMs });
+    }
+    const steps = Math.max(1, Math.round(crossfadeMs / CROSSFADE_STEP_MS));
+    for (let step = 0; step < steps; step++) {
+      timeline.push({ from, to, mix: (step + 0.5) / steps, durationMs: crossfadeMs / steps });
+    }
+  });
+  return timeline;
+};
+
+export const timelineDuration = (timeline: TurnaroundFrame[]): number =>
+  timeline.reduce((sum, frame) => sum + frame.durationMs, 0);
+
+/** The frame on screen `timeMs` into the animation, which repeats forever. */
+export const frameAt = (timeline: TurnaroundFrame[], timeMs: number): TurnaroundFrame => {
+  let remaining = timeMs % timelineDuration(timeline);
+  for (const frame of timeline) {
+    if (remaining < frame.durationMs) return frame;
+    remaining -= frame.durationMs;
+  }
+  return timeline[timeline.length - 1];
+};
+
+// Scales an image to fit the canvas, centred, like the contact sheet's letterboxing
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/** Draws one frame of the animation: the current view with the next one blended over it. */
+export const drawTurnaroundFrame = (ctx: CanvasRenderingContext2D, images: HTMLImageElement[], frame: TurnaroundFrame) => {
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  drawContained(ctx, images[frame.from]);
+  if (frame.mix > 0) {
+    ctx.globalAlpha = frame.mix;
+    drawContained(ctx, images[frame.to]);
+    ctx.globalAlpha = 1;
+  }
+};
+
+export const isWebmSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The export was cancelled.', 'AbortError');
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The frame could not be encoded.")), type, quality);
+  });
+
+// MediaRecorder only records in real time, so the animation is played once onto the canvas while it records
+const recordWebm = async (
+  canvas: HTMLCanvasElement,
+  render: (frame: TurnaroundFrame) => void,
+  timeline: TurnaroundFrame[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (!isWebmSupported()) throw new Error("This browser cannot record WebM video. Try Chrome or Firefox, or export a GIF.");
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  render(timeline[0]);
+  recorder.start();
+  try {
+    for (let i = 0; i < timeline.length; i++) {
+      throwIfAborted(signal);
+      render(timeline[i]);
+      onProgress?.(i + 1, timeline.length);
+      await wait(timeline[i].durationMs);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Renders the views as an animation in the chosen format, entirely in the
+ * browser. GIF and WebP are encoded frame by frame; WebM is recorded in real
+ * time, so it takes as long as one cycle of the animation.
+ */
+export const exportTurnaround = async (
+  sources: string[],
+  options: TurnaroundOptions,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (sources.length < 2) throw new Error("A turnaround needs at least two images.");
+  const images = await Promise.all(sources.map(loadImage));
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  // Even dimensions, which video encoders require
+  canvas.height = Math.round(options.width * images[0].naturalHeight / images[0].naturalWidth / 2) * 2;
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'image/gif' });
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.imageSmoothingQuality = 'high';
+
+  const timeline = buildTimeline(images.length, options);
+  const render = (frame: TurnaroundFrame) => drawTurnaroundFrame(ctx, images, frame);
+
+  if (options.format === 'video/webm') return recordWebm(canvas, render, timeline, onProgress, signal);
+
+  const gif = createGifEncoder(canvas.width, canvas.height);
+  const webpFrames: WebpFrame[] = [];
+  for (let i = 0; i < timeline.length; i++) {
+    throwIfAborted(signal);
+    render(timeline[i]);
+    if (options.format === 'image/gif') {
+      gif.addFrame({ pixels: ctx.getImageData(0, 0, canvas.width, canvas.height).data, delayMs: timeline[i].durationMs });
+    } else {
+      const blob = await canvasToBlob(canvas, 'image/webp', WEBP_QUALITY);
+      // Browsers without a WebP encoder fall back to PNG
+      if (blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP. Try Chrome or Firefox, or export a GIF.");
+      webpFrames.push({ webp: new Uint8Array(await blob.arrayBuffer()), delayMs: timeline[i].durationMs });
+    }
+    onProgress?.(i + 1, timeline.length);
+    // Let the progress render between frames
+    await nextTask();
+  }
+
+  return options.format === 'image/gif'
+    ? gif.finish()
+    : muxAnimatedWebp(webpFrames, canvas.width, canvas.height);
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { cropForRatio, fitWithin, orientationTransform, readExif } from './uploadProcessing';
+
+// A minimal JPEG header: SOI, an APP0 segment, then APP1 with a big-endian TIFF block
+const jpegWithExif = (entries: [tag: number, value: number][]) => {
+  const tiff = [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, entries.length];
+  for (const [tag, value] of entries) {
+    tiff.push(tag >> 8, tag & 0xff, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, value >> 8, value & 0xff, 0x00, 0x00);
+  }
+  const exif = [...'Exif'].map(c => c.charCodeAt(0)).concat(0, 0, tiff);
+  const app1 = [0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif];
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00];
+  return new Uint8Array([0xff, 0xd8, ...app0, ...app1, 0xff, 0xda]);
+};
+
+describe('readExif', () => {
+  it('reads the orientation and notices a GPS block', () => {
+    expect(readExif(jpegWithExif([[0x0112, 6], [0x8825, 0]]))).toEqual({ orientation: 6, hasLocation: true });
+    expect(readExif(jpegWithExif([[0x010f, 1]]))).toEqual({ orientation: 1, hasLocation: false });
+  });
+
+  it('returns null without EXIF', () => {
+    expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBeNull();
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
+
+describe('orientationTransform', () => {
+  it('maps the stored corners onto the upright image', () => {
+    const apply = ([a, b, c, d, e, f]: number[], x: number, y: number) => [a * x + c * y + e, b * x + d * y + f];
+    // Orientation 6 is stored rotated 90° anticlockwise: the stored top-left ends up top-right
+    const rotate = orientationTransform(6, 400, 300);
+    expect(apply(rotate, 0, 0)).toEqual([300, 0]);
+    expect(apply(rotate, 400, 300)).toEqual([0, 400]);
+    expect(orientationTransform(1, 400, 300)).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+});
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the limit and never up', () => {
+    expect(fitWithin(4032, 3024, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(fitWithin(1000, 3000, 1500)).toEqual({ width: 500, height: 1500 });
+    expect(fitWithin(800, 600, 2048)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('cropForRatio', () => {
+  it('takes the largest centered crop of the ratio', () => {
+    expect(cropForRatio(4000, 3000, '1:1')).toEqual({ x: 0.125, y: 0, width: 0.75, height: 1 });
+    expect(cropForRatio(3000, 4000, '3:2')).toEqual({ x: 0, y: 0.25, width: 1, height: 0.5 });
+  });
+
+  it('shrinks with zoom and stays inside the image', () => {
+    expect(cropForRatio(1000, 1000, '1:1', 0.5, { x: 0.9, y: 0.1 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+});
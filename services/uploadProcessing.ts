@@ -0,0 +1,219 @@
+import { AspectRatio } from "../types";
+import { aspectRatioValue } from "./aspectRatio";
+import { dataUrlByteSize, loadImage, parseDataUrl, readImageFile } from "./imageFormat";
+
+const SETTINGS_KEY = 'grid-upload-settings';
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+export interface UploadSettings {
+  maxDimension: number; // Longest side of a prepared upload, in pixels
+}
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = { maxDimension: 2048 };
+
+export const loadUploadSettings = (): UploadSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) {
+      const { maxDimension } = JSON.parse(raw);
+      if (MAX_DIMENSION_OPTIONS.includes(maxDimension)) return { maxDimension };
+    }
+  } catch (e) {
+    console.error("Failed to load upload settings", e);
+  }
+  return DEFAULT_UPLOAD_SETTINGS;
+};
+
+export const saveUploadSettings = (settings: UploadSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface ExifInfo {
+  orientation: number; // EXIF orientation 1-8; 1 is upright
+  hasLocation: boolean; // A GPS block is present
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+
+const readTiff = (view: DataView, tiff: number): ExifInfo | null => {
+  if (tiff + 8 > view.byteLength) return null;
+  const little = view.getUint16(tiff) === 0x4949; // "II" is little-endian, "MM" big-endian
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > view.byteLength) return null;
+
+  const info: ExifInfo = { orientation: 1, hasLocation: false };
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    if (tag === TAG_ORIENTATION) {
+      const value = view.getUint16(entry + 8, little);
+      if (value >= 1 && value <= 8) info.orientation = value;
+    } else if (tag === TAG_GPS_IFD) {
+      info.hasLocation = true;
+    }
+  }
+  return info;
+};
+
+/**
+ * Reads the orientation and whether a location is recorded from the EXIF block
+ * of a JPEG. Returns null for other formats and for JPEGs without EXIF.
+ */
+export const readExif = (bytes: Uint8Array): ExifInfo | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null; // Image data starts; no more metadata
+    const length = view.getUint16(offset + 2);
+    const isExif = marker === 0xffe1 && String.fromCharCode(...bytes.slice(offset + 4, offset + 8)) === 'Exif';
+    if (isExif) return readTiff(view, offset + 10);
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Canvas transform that draws an image stored with the given EXIF orientation
+ * upright. `width` and `height` are the stored (unrotated) dimensions.
+ */
+export const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+/** Scales a size down so its longest side is at most `maxDimension`. Never scales up. */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** A crop as fractions (0-1) of the upright image. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The crop of the given aspect ratio around `center`. At zoom 1 it is the
+ * largest such crop that fits; smaller zooms shrink it. The crop is moved back
+ * inside the image when the center is too close to an edge.
+ */
+export const cropForRatio = (
+  width: number,
+  height: number,
+  ratio: AspectRatio,
+  zoom = 1,
+  center = { x: 0.5, y: 0.5 }
+): CropRect => {
+  const target = aspectRatioValue(ratio);
+  const fullWidth = width / height > target ? height * target : width;
+  const cropWidth = fullWidth * zoom;
+  const cropHeight = cropWidth / target;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  const x = clamp(center.x * width - cropWidth / 2, width - cropWidth);
+  const y = clamp(center.y * height - cropHeight / 2, height - cropHeight);
+  return { x: x / width, y: y / height, width: cropWidth / width, height: cropHeight / height };
+};
+
+export interface UploadSource {
+  name: string;
+  dataUrl: string;
+  mimeType: string;
+  bytes: number; // Size of the file as picked
+  exif: ExifInfo | null;
+}
+
+/** Reads a picked file along with the metadata preparation needs. */
+export const readUploadSource = async (file: File): Promise<UploadSource> => {
+  // EXIF sits in an APP1 segment of at most 64 KB near the start of the file
+  const header = new Uint8Array(await file.slice(0, 128 * 1024).arrayBuffer());
+  const { dataUrl, mimeType } = await readImageFile(file);
+  return { name: file.name, dataUrl, mimeType, bytes: file.size, exif: readExif(header) };
+};
+
+// Current browsers already apply EXIF orientation when decoding, including for
+// canvas drawing; older ones hand over the stored pixels.
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && !!CSS.supports?.('image-orientation', 'from-image');
+
+export interface PreparedUpload {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  sourceWidth: number; // Upright size before cropping and scaling
+  sourceHeight: number;
+}
+
+export interface PrepareOptions {
+  maxDimension: number;
+  crop?: CropRect;
+}
+
+/**
+ * Redraws an upload upright, cropped and scaled to fit `maxDimension`. The
+ * re-encode leaves out all metadata, including camera details and GPS position.
+ * PNG and WebP keep their format for transparency; everything else becomes JPEG.
+ */
+export const prepareUpload = async (source: UploadSource, options: PrepareOptions): Promise<PreparedUpload> => {
+  const img = await loadImage(source.dataUrl);
+  const orientation = browserAppliesOrientation() ? 1 : source.exif?.orientation ?? 1;
+  const rotated = orientation >= 5;
+  const sourceWidth = rotated ? img.naturalHeight : img.naturalWidth;
+  const sourceHeight = rotated ? img.naturalWidth : img.naturalHeight;
+
+  const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const area = {
+    x: crop.x * sourceWidth,
+    y: crop.y * sourceHeight,
+    width: crop.width * sourceWidth,
+    height: crop.height * sourceHeight,
+  };
+  const { width, height } = fitWithin(area.width, area.height, options.maxDimension);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  const outputType = source.mimeType === 'image/png' || source.mimeType === 'image/webp' ? source.mimeType : 'image/jpeg';
+  if (outputType === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(width / area.width, height / area.height);
+  ctx.translate(-area.x, -area.y);
+  ctx.transform(...orientationTransform(orientation, img.naturalWidth, img.naturalHeight));
+  ctx.drawImage(img, 0, 0);
+
+  const dataUrl = canvas.toDataURL(outputType, 0.92);
+  return {
+    dataUrl,
+    // Browsers without a WebP encoder fall back to PNG
+    mimeType: parseDataUrl(dataUrl).mimeType,
+    width,
+    height,
+    bytes: dataUrlByteSize(dataUrl),
+    sourceWidth,
+    sourceHeight,
+  };
+};
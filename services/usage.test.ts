@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { appendUsage, checkBudget, dailySpend, entryCost, estimateCallCost, MAX_LEDGER_ENTRIES, summarizeUsage, totalCost, trackUsage } from './usage';
+import { createMockProvider } from './mockProvider';
+import { GenerationError, SafetyBlockError } from './errors';
+import { ImageSize, ModelPrice, UsageEntry } from '../types';
+
+const prices: Record<string, ModelPrice> = {
+  pro: { inputPerMillion: 2, outputPerMillion: 120, imageTokens: { [ImageSize.SIZE_1K]: 1000, [ImageSize.SIZE_4K]: 2000 } },
+};
+
+const entry = (changes: Partial<UsageEntry> = {}): UsageEntry => ({
+  id: crypto.randomUUID(),
+  timestamp: new Date(2026, 0, 10, 12).getTime(),
+  provider: 'gemini',
+  model: 'pro',
+  operation: 'generate',
+  size: ImageSize.SIZE_1K,
+  ...changes,
+});
+
+describe('costs', () => {
+  it('prices recorded calls from their token counts', () => {
+    expect(entryCost(entry({ usage: { inputTokens: 500_000, outputTokens: 10_000 } }), prices)).toBeCloseTo(1 + 1.2);
+  });
+
+  it('estimates calls without counts from the image size', () => {
+    expect(estimateCallCost(prices, 'pro', 'upscale', ImageSize.SIZE_4K)).toBeCloseTo((400 * 2 + 2000 * 120) / 1e6);
+    // Sizes without their own token count fall back to 1K
+    expect(estimateCallCost(prices, 'pro', 'generate', ImageSize.SIZE_2K)).toBeCloseTo((100 * 2 + 1000 * 120) / 1e6);
+    expect(estimateCallCost(prices, 'unpriced', 'generate')).toBe(0);
+  });
+
+  it('estimates a rephrase as a short text reply rather than an image', () => {
+    expect(estimateCallCost(prices, 'pro', 'rephrase')).toBeCloseTo((150 * 2 + 100 * 120) / 1e6);
+  });
+
+  it('estimates a failed call without counts at its input only', () => {
+    expect(entryCost(entry({ outcome: 'failed' }), prices)).toBeCloseTo(100 * 2 / 1e6);
+  });
+
+  it('totals the calls since a point in time', () => {
+    const early = entry({ timestamp: 1000, usage: { inputTokens: 0, outputTokens: 1_000_000 } });
+    const late = entry({ timestamp: 2000, usage: { inputTokens: 0, outputTokens: 500_000 } });
+    expect(totalCost([early, late], prices)).toBeCloseTo(180);
+    expect(totalCost([early, late], prices, 1500)).toBeCloseTo(60);
+  });
+});
+
+describe('checkBudget', () => {
+  it('passes runs that fit and explains runs that do not', () => {
+    expect(checkBudget({ limit: null, mode: 'block' }, 100, 100)).toBeNull();
+    expect(checkBudget({ limit: 5, mode: 'warn' }, 4, 1)).toBeNull();
+    expect(checkBudget({ limit: 5, mode: 'warn' }, 4.5, 0.94)).toBe(
+      'This run is estimated at $0.94, which would take this session to $5.44, over the $5.00 budget.'
+    );
+  });
+});
+
+describe('ledger', () => {
+  it('drops the oldest entries beyond the cap', () => {
+    const full = Array.from({ length: MAX_LEDGER_ENTRIES }, (_, i) => entry({ id: String(i) }));
+    const next = appendUsage(full, entry({ id: 'new' }));
+    expect(next).toHaveLength(MAX_LEDGER_ENTRIES);
+    expect(next[0].id).toBe('1');
+    expect(next[next.length - 1].id).toBe('new');
+  });
+
+  it('groups calls by model, operation and size', () => {
+    const rows = summarizeUsage([
+      entry({ usage: { inputTokens: 10, outputTokens: 1000 } }),
+      entry({ usage: { inputTokens: 20, outputTokens: 1000 }, outcome: 'failed' }),
+      entry({ operation: 'upscale', size: ImageSize.SIZE_4K, usage: { inputTokens: 30, outputTokens: 2000 } }),
+    ], prices);
+    expect(rows.map(r => [r.operation, r.size, r.calls, r.failed, r.inputTokens])).toEqual([
+      ['generate', '1K', 2, 1, 30],
+      ['upscale', '4K', 1, 0, 30],
+    ]);
+  });
+
+  it('spreads spend over calendar days, including empty ones', () => {
+    const now = new Date(2026, 0, 10, 18).getTime();
+    const series = dailySpend([entry({ usage: { inputTokens: 0, outputTokens: 1_000_000 } })], prices, 3, now);
+    expect(series.map(p => [p.day, p.calls])).toEqual([['2026-01-08', 0], ['2026-01-09', 0], ['2026-01-10', 1]]);
+    expect(series[2].cost).toBeCloseTo(120);
+  });
+});
+
+describe('trackUsage', () => {
+  it('records each successful call with its model, operation and size', async () => {
+    const record = vi.fn();
+    const provider = trackUsage(createMockProvider(), record);
+
+    await provider.generate({ prompt: 'fox', size: ImageSize.SIZE_2K });
+    await provider.upscale({ image: 'data:image/png;base64,AAAA', prompt: 'fox' });
+    await provider.refine({ image: 'data:image/png;base64,AAAA', turns: [], prompt: 'warmer' });
+    await provider.rephrase('a gory fox', 'Blocked: safety');
+
+    expect(record.mock.calls.map(([e]) => [e.provider, e.model, e.operation, e.size])).toEqual([
+      ['mock', 'mock-pro', 'generate', '2K'],
+      ['mock', 'mock-pro', 'upscale', '4K'],
+      ['mock', 'mock-flash', 'refine', undefined],
+      ['mock', 'mock-text', 'rephrase', undefined],
+    ]);
+  });
+
+  it('records failed calls that reached the model, with the tokens their error carries', async () => {
+    const record = vi.fn();
+    const blocked = Object.assign(new SafetyBlockError('IMAGE_SAFETY'), { usage: { inputTokens: 560, outputTokens: 1290 } });
+    const provider = trackUsage({ ...createMockProvider(), edit: vi.fn().mockRejectedValue(blocked) }, record);
+
+    await expect(provider.edit({ image: 'data:image/png;base64,AAAA', prompt: 'x' })).rejects.toBe(blocked);
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ operation: 'edit', outcome: 'failed', usage: { inputTokens: 560, outputTokens: 1290 } }));
+  });
+
+  it('does not record calls that never reached the model', async () => {
+    const record = vi.fn();
+    const provider = trackUsage({
+      ...createMockProvider(),
+      generate: vi.fn().mockRejectedValue(new GenerationError('auth', 'API key not valid')),
+      edit: vi.fn().mockRejectedValue(new DOMException('The request was aborted.', 'AbortError')),
+    }, record);
+
+    await expect(provider.generate({ prompt: 'x' })).rejects.toThrow();
+    await expect(provider.edit({ image: 'data:image/png;base64,AAAA', prompt: 'x' })).rejects.toThrow();
+    expect(record).not.toHaveBeenCalled();
+  });
+});
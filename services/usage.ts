@@ -0,0 +1,265 @@
+import { BudgetSettings, ImageSize, ModelPrice, TokenUsage, UsageEntry, UsageOperation } from "../types";
+import type { ImageProvider } from "./imageProvider";
+import { GenerationError, GenerationErrorKind } from "./errors";
+
+const LEDGER_KEY = 'grid-usage-ledger';
+const PRICES_KEY = 'grid-usage-prices';
+const BUDGET_KEY = 'grid-usage-budget';
+const SESSION_KEY = 'grid-usage-session-start';
+
+// Oldest entries are dropped beyond this, to stay well inside the localStorage quota
+export const MAX_LEDGER_ENTRIES = 5000;
+
+/**
+ * Published Gemini API prices in USD. Image output is billed as tokens, so an
+ * image's price is its token count times the output rate. The mock models use
+ * the prices of the models they stand in for, so budgets can be tried offline.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-image-preview': {
+    inputPerMillion: 2,
+    outputPerMillion: 120,
+    imageTokens: { [ImageSize.SIZE_1K]: 1120, [ImageSize.SIZE_2K]: 1120, [ImageSize.SIZE_4K]: 2000 },
+  },
+  'gemini-2.5-flash-image': {
+    inputPerMillion: 0.3,
+    outputPerMillion: 30,
+    imageTokens: { [ImageSize.SIZE_1K]: 1290 },
+  },
+  // Text model of prompt rephrasing; it returns no images
+  'gemini-2.5-flash': {
+    inputPerMillion: 0.3,
+    outputPerMillion: 2.5,
+    imageTokens: {},
+  },
+  'mock-pro': {
+    inputPerMillion: 2,
+    outputPerMillion: 120,
+    imageTokens: { [ImageSize.SIZE_1K]: 1120, [ImageSize.SIZE_2K]: 1120, [ImageSize.SIZE_4K]: 2000 },
+  },
+  'mock-flash': {
+    inputPerMillion: 0.3,
+    outputPerMillion: 30,
+    imageTokens: { [ImageSize.SIZE_1K]: 1290 },
+  },
+  'mock-text': {
+    inputPerMillion: 0.3,
+    outputPerMillion: 2.5,
+    imageTokens: {},
+  },
+};
+
+export const DEFAULT_BUDGET: BudgetSettings = { limit: null, mode: 'warn' };
+
+// Rough input size of a call before it is made: the prompt, plus an input image for edits
+const ESTIMATED_INPUT_TOKENS: Record<UsageOperation, number> = {
+  generate: 100,
+  edit: 400,
+  upscale: 400,
+  inpaint: 700, // Image and mask
+  refine: 400, // Grows with each earlier turn; this is a single turn
+  rephrase: 150,
+};
+
+// Rough size of a rephrased prompt, the one call that answers with text instead of an image
+const ESTIMATED_TEXT_TOKENS = 100;
+
+// Failures after the request reached the model, which may be billed. Auth and quota errors are
+// turned away before it, and network errors never arrive.
+const BILLED_FAILURES: GenerationErrorKind[] = ['safety', 'no-image', 'timeout', 'server', 'unknown'];
+
+const loadJson = <T>(key: string, fallback: T, label: string): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Failed to load ${label}`, e);
+  }
+  return fallback;
+};
+
+export const loadUsageLedger = (): UsageEntry[] => {
+  const entries = loadJson<unknown>(LEDGER_KEY, [], 'usage ledger');
+  return Array.isArray(entries) ? entries : [];
+};
+
+export const saveUsageLedger = (entries: UsageEntry[]): void => {
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(entries));
+};
+
+export const appendUsage = (entries: UsageEntry[], entry: UsageEntry): UsageEntry[] =>
+  [...entries, entry].slice(-MAX_LEDGER_ENTRIES);
+
+export const loadPrices = (): Record<string, ModelPrice> =>
+  ({ ...DEFAULT_PRICES, ...loadJson(PRICES_KEY, {}, 'usage prices') });
+
+export const savePrices = (prices: Record<string, ModelPrice>): void => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+export const loadBudget = (): BudgetSettings =>
+  ({ ...DEFAULT_BUDGET, ...loadJson(BUDGET_KEY, {}, 'budget') });
+
+export const saveBudget = (budget: BudgetSettings): void => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+/** Start of the current session. It survives reloads of the tab but not a new tab. */
+export const loadSessionStart = (): number => {
+  const stored = Number(sessionStorage.getItem(SESSION_KEY));
+  if (stored > 0) return stored;
+  const now = Date.now();
+  saveSessionStart(now);
+  return now;
+};
+
+export const saveSessionStart = (start: number): void => {
+  sessionStorage.setItem(SESSION_KEY, String(start));
+};
+
+const tokenCost = (price: ModelPrice, inputTokens: number, outputTokens: number) =>
+  (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+
+/** Expected cost of one call before it is made. Models without a price cost nothing. */
+export const estimateCallCost = (
+  prices: Record<string, ModelPrice>,
+  model: string,
+  operation: UsageOperation,
+  size: ImageSize = ImageSize.SIZE_1K
+): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  const outputTokens = operation === 'rephrase'
+    ? ESTIMATED_TEXT_TOKENS
+    : price.imageTokens[size] ?? price.imageTokens[ImageSize.SIZE_1K] ?? 0;
+  return tokenCost(price, ESTIMATED_INPUT_TOKENS[operation], outputTokens);
+};
+
+/**
+ * Cost of a recorded call: from its token counts, or estimated if it has none.
+ * A failed call without counts is estimated at its input only, as it returned nothing.
+ */
+export const entryCost = (entry: UsageEntry, prices: Record<string, ModelPrice>): number => {
+  const price = prices[entry.model];
+  if (!price) return 0;
+  if (entry.usage) return tokenCost(price, entry.usage.inputTokens, entry.usage.outputTokens);
+  return entry.outcome === 'failed'
+    ? tokenCost(price, ESTIMATED_INPUT_TOKENS[entry.operation], 0)
+    : estimateCallCost(prices, entry.model, entry.operation, entry.size);
+};
+
+export const totalCost = (entries: UsageEntry[], prices: Record<string, ModelPrice>, since = 0): number =>
+  entries.filter(e => e.timestamp >= since).reduce((sum, e) => sum + entryCost(e, prices), 0);
+
+/**
+ * Explains why a run may not start, or returns null if it fits the budget.
+ */
+export const checkBudget = (budget: BudgetSettings, spent: number, estimate: number): string | null => {
+  if (budget.limit === null || spent + estimate <= budget.limit) return null;
+  return `This run is estimated at ${formatCost(estimate)}, which would take this session to ${formatCost(spent + estimate)}, over the ${formatCost(budget.limit)} budget.`;
+};
+
+export const formatCost = (usd: number): string =>
+  usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export interface UsageRow {
+  model: string;
+  operation: UsageOperation;
+  size?: ImageSize;
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/** Calls grouped by model, operation and size, most expensive first. */
+export const summarizeUsage = (entries: UsageEntry[], prices: Record<string, ModelPrice>): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const entry of entries) {
+    const key = `${entry.model}|${entry.operation}|${entry.size ?? ''}`;
+    const row = rows.get(key) ?? { model: entry.model, operation: entry.operation, size: entry.size, calls: 0, failed: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    row.calls++;
+    if (entry.outcome === 'failed') row.failed++;
+    row.inputTokens += entry.usage?.inputTokens ?? 0;
+    row.outputTokens += entry.usage?.outputTokens ?? 0;
+    row.cost += entryCost(entry, prices);
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => b.cost - a.cost);
+};
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** Spend per local calendar day for the last `days` days, oldest first, including days without calls. */
+export const dailySpend = (
+  entries: UsageEntry[],
+  prices: Record<string, ModelPrice>,
+  days: number,
+  now = Date.now()
+): { day: string; cost: number; calls: number }[] => {
+  const series = Array.from({ length: days }, (_, i) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - (days - 1 - i));
+    return { day: dayKey(date.getTime()), cost: 0, calls: 0 };
+  });
+  const byDay = new Map(series.map(point => [point.day, point]));
+  for (const entry of entries) {
+    const point = byDay.get(dayKey(entry.timestamp));
+    if (!point) continue;
+    point.cost += entryCost(entry, prices);
+    point.calls++;
+  }
+  return series;
+};
+
+/**
+ * Wraps a provider so every call that reaches the model is reported to `onRecord`,
+ * with the token counts the service returned. Failed calls are recorded as failed,
+ * with the counts their error carries; cancelled calls and calls turned away before
+ * the model are not recorded.
+ */
+export const trackUsage = (provider: ImageProvider, onRecord: (entry: UsageEntry) => void): ImageProvider => {
+  const track = (operation: UsageOperation, model: string, size?: ImageSize) =>
+    <T extends { usage?: TokenUsage }>(call: Promise<T>): Promise<T> => {
+      const record = (outcome: UsageEntry['outcome'], usage: TokenUsage | undefined) => onRecord({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        provider: provider.id,
+        model,
+        operation,
+        size,
+        usage,
+        outcome,
+      });
+      return call.then(
+        result => {
+          record('success', result.usage);
+          return result;
+        },
+        err => {
+          if (err instanceof GenerationError && BILLED_FAILURES.includes(err.kind)) record('failed', err.usage);
+          throw err;
+        }
+      );
+    };
+
+  return {
+    ...provider,
+    generate: (request, signal) =>
+      track('generate', provider.models.generate, request.size ?? ImageSize.SIZE_1K)(provider.generate(request, signal)),
+    edit: (request, signal) =>
+      track('edit', provider.models.edit)(provider.edit(request, signal)),
+    upscale: (request, signal) =>
+      track('upscale', provider.models.upscale, request.size ?? ImageSize.SIZE_4K)(provider.upscale(request, signal)),
+    inpaint: (request, signal) =>
+      track('inpaint', provider.models.edit)(provider.inpaint(request, signal)),
+    refine: (request, signal) =>
+      track('refine', provider.models.edit)(provider.refine(request, signal)),
+    rephrase: (prompt, reason, signal) =>
+      track('rephrase', provider.models.text)(provider.rephrase(prompt, reason, signal)),
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { fitScale, fitViewport, clampViewport, zoomAt, panBy, visibleRect, centerOn } from './viewport';
+
+const image = { width: 4000, height: 2000 };
+const box = { width: 800, height: 600 };
+
+describe('viewport', () => {
+  it('fits large images and never enlarges small ones', () => {
+    expect(fitScale(image, box)).toBe(0.2);
+    expect(fitScale({ width: 100, height: 100 }, box)).toBe(1);
+  });
+
+  it('centers a fitted image', () => {
+    expect(fitViewport(image, box)).toEqual({ scale: 0.2, x: 0, y: 100 });
+  });
+
+  it('keeps the point under the cursor fixed while zooming', () => {
+    const start = { scale: 0.5, x: -200, y: -100 };
+    const next = zoomAt(start, 1, 300, 200, image, box);
+
+    // Image point under (300, 200) before: ((300 + 200) / 0.5, (200 + 100) / 0.5) = (1000, 600)
+    expect(next.scale).toBe(1);
+    expect((300 - next.x) / next.scale).toBe(1000);
+    expect((200 - next.y) / next.scale).toBe(600);
+  });
+
+  it('cannot pan past the image edges', () => {
+    const view = { scale: 1, x: 0, y: 0 };
+
+    expect(panBy(view, 500, 500, image, box)).toEqual({ scale: 1, x: 0, y: 0 });
+    expect(panBy(view, -10000, -10000, image, box)).toEqual({ scale: 1, x: -3200, y: -1400 });
+  });
+
+  it('centers an axis that is smaller than the container', () => {
+    expect(clampViewport({ scale: 0.25, x: -50, y: -50 }, image, box)).toEqual({ scale: 0.25, x: -50, y: 50 });
+  });
+
+  it('reports the visible region in image pixels', () => {
+    expect(visibleRect({ scale: 2, x: -1000, y: -400 }, image, box)).toEqual({ x: 500, y: 200, width: 400, height: 300 });
+  });
+
+  it('centers the view on an image point', () => {
+    expect(centerOn({ scale: 1, x: 0, y: 0 }, 2000, 1000, image, box)).toEqual({ scale: 1, x: -1600, y: -700 });
+  });
+});
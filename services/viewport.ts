@@ -0,0 +1,83 @@
+/**
+ * Pan and zoom math for the image inspector. A viewport places an image of
+ * `image` size inside a container of `box` size: the image is scaled by `scale`
+ * and its top-left corner sits at (x, y) in container pixels.
+ */
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 16;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/** Scale at which the whole image fits the container, never enlarged past 100%. */
+export const fitScale = (image: Size, box: Size): number => {
+  if (!image.width || !image.height || !box.width || !box.height) return 1;
+  return Math.min(1, box.width / image.width, box.height / image.height);
+};
+
+/**
+ * Keeps the image covering as much of the container as it can: an axis smaller
+ * than the container is centered, a larger one cannot be panned past its edges.
+ */
+export const clampViewport = (view: Viewport, image: Size, box: Size): Viewport => {
+  const clampAxis = (offset: number, imageLength: number, boxLength: number) => {
+    const scaled = imageLength * view.scale;
+    if (scaled <= boxLength) return (boxLength - scaled) / 2;
+    return Math.min(0, Math.max(boxLength - scaled, offset));
+  };
+  return {
+    scale: view.scale,
+    x: clampAxis(view.x, image.width, box.width),
+    y: clampAxis(view.y, image.height, box.height),
+  };
+};
+
+export const fitViewport = (image: Size, box: Size): Viewport =>
+  clampViewport({ scale: fitScale(image, box), x: 0, y: 0 }, image, box);
+
+/**
+ * Zooms to `scale` while keeping the image point under container point
+ * (cx, cy) in place, as for zooming to the cursor.
+ */
+export const zoomAt = (view: Viewport, scale: number, cx: number, cy: number, image: Size, box: Size): Viewport => {
+  const next = clampScale(scale);
+  const ratio = next / view.scale;
+  return clampViewport({
+    scale: next,
+    x: cx - (cx - view.x) * ratio,
+    y: cy - (cy - view.y) * ratio,
+  }, image, box);
+};
+
+export const panBy = (view: Viewport, dx: number, dy: number, image: Size, box: Size): Viewport =>
+  clampViewport({ ...view, x: view.x + dx, y: view.y + dy }, image, box);
+
+/** The part of the image that is visible, in image pixels. */
+export const visibleRect = (view: Viewport, image: Size, box: Size) => {
+  const left = Math.max(0, -view.x / view.scale);
+  const top = Math.max(0, -view.y / view.scale);
+  return {
+    x: left,
+    y: top,
+    width: Math.min(image.width, (box.width - view.x) / view.scale) - left,
+    height: Math.min(image.height, (box.height - view.y) / view.scale) - top,
+  };
+};
+
+/** Moves the viewport so image point (px, py) is at the center of the container. */
+export const centerOn = (view: Viewport, px: number, py: number, image: Size, box: Size): Viewport =>
+  clampViewport({
+    scale: view.scale,
+    x: box.width / 2 - px * view.scale,
+    y: box.height / 2 - py * view.scale,
+  }, image, box);
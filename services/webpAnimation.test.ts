@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { muxAnimatedWebp } from './webpAnimation';
+
+const chunk = (fourcc: string, payload: number[]) => {
+  const size = payload.length;
+  return [...Array.from(fourcc, c => c.charCodeAt(0)), size & 255, size >> 8, 0, 0, ...payload, ...(size & 1 ? [0] : [])];
+};
+
+const stillWebp = (...chunks: number[][]) => {
+  const body = [...Array.from('WEBP', c => c.charCodeAt(0)), ...chunks.flat()];
+  return new Uint8Array([...Array.from('RIFF', c => c.charCodeAt(0)), body.length & 255, body.length >> 8, 0, 0, ...body]);
+};
+
+const readChunks = (bytes: Uint8Array, start: number, end: number) => {
+  const view = new DataView(bytes.buffer);
+  const chunks: { fourcc: string; offset: number; size: number }[] = [];
+  for (let offset = start; offset < end;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: String.fromCharCode(...bytes.subarray(offset, offset + 4)), offset: offset + 8, size });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+describe('muxAnimatedWebp', () => {
+  it('wraps each still frame in an animation frame', async () => {
+    const frames = [
+      { webp: stillWebp(chunk('VP8 ', [1, 2, 3])), delayMs: 600 },
+      // Extended stills carry their own VP8X header, which is dropped
+      { webp: stillWebp(chunk('VP8X', new Array(10).fill(0)), chunk('ALPH', [9]), chunk('VP8 ', [4, 5])), delayMs: 50 },
+    ];
+
+    const bytes = new Uint8Array(await muxAnimatedWebp(frames, 640, 480).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const chunks = readChunks(bytes, 12, bytes.length);
+
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(chunks.map(c => c.fourcc)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+
+    const header = chunks[0].offset;
+    expect(bytes[header] & 0x02).toBe(0x02); // Animation flag
+    expect(bytes[header] & 0x10).toBe(0x10); // The second frame has alpha
+    expect(view.getUint32(header + 4, true) & 0xffffff).toBe(639);
+    expect(view.getUint32(header + 6, true) >>> 8).toBe(479);
+
+    const durations = chunks.slice(2).map(c => view.getUint32(c.offset + 12, true) & 0xffffff);
+    expect(durations).toEqual([600, 50]);
+    const inner = chunks.slice(2).map(c => readChunks(bytes, c.offset + 16, c.offset + c.size).map(i => i.fourcc));
+    expect(inner).toEqual([['VP8 '], ['ALPH', 'VP8 ']]);
+  });
+
+  it('rejects frames that are not WebP', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    expect(() => muxAnimatedWebp([{ webp: png, delayMs: 100 }], 10, 10)).toThrow(/not a WebP/);
+  });
+});
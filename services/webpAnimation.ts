@@ -0,0 +1,80 @@
+export interface WebpFrame {
+  webp: Uint8Array; // A still WebP file, as encoded by canvas.toBlob
+  delayMs: number;
+}
+
+interface Chunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const fourccAt = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readChunks = (file: Uint8Array): Chunk[] => {
+  if (fourccAt(file, 0) !== 'RIFF' || fourccAt(file, 8) !== 'WEBP') {
+    throw new Error("The frame is not a WebP image.");
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: fourccAt(file, offset), data: file.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1); // Chunks are padded to an even length
+  }
+  return chunks;
+};
+
+const writeChunk = (fourcc: string, parts: Uint8Array[]): Uint8Array => {
+  const size = parts.reduce((sum, part) => sum + part.length, 0);
+  const chunk = new Uint8Array(8 + size + (size & 1));
+  chunk.set(Array.from(fourcc, c => c.charCodeAt(0)));
+  new DataView(chunk.buffer).setUint32(4, size, true);
+  let offset = 8;
+  for (const part of parts) {
+    chunk.set(part, offset);
+    offset += part.length;
+  }
+  return chunk;
+};
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+/**
+ * Combines still WebP frames into a looping animated WebP. Browsers can encode
+ * still WebP but not animations, so each frame's bitstream is taken as is and
+ * wrapped in the animation chunks of the extended format.
+ */
+export const muxAnimatedWebp = (frames: WebpFrame[], width: number, height: number): Blob => {
+  if (frames.length === 0) throw new Error("There are no frames to encode.");
+  let hasAlpha = false;
+  const animationFrames = frames.map(frame => {
+    // Keep the alpha and bitstream chunks; a still file's own VP8X header is replaced by the animation's
+    const imageChunks = readChunks(frame.webp).filter(c => c.fourcc === 'ALPH' || c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+    if (!imageChunks.some(c => c.fourcc !== 'ALPH')) throw new Error("The frame has no image data.");
+    hasAlpha ||= imageChunks.some(c => c.fourcc === 'ALPH' || c.fourcc === 'VP8L');
+    return writeChunk('ANMF', [
+      new Uint8Array([
+        ...uint24(0), ...uint24(0), // Frame offset, in units of 2 px
+        ...uint24(width - 1), ...uint24(height - 1),
+        ...uint24(Math.round(frame.delayMs)),
+        0b10, // Do not blend with the previous frame, do not dispose
+      ]),
+      ...imageChunks.map(c => writeChunk(c.fourcc, [c.data])),
+    ]);
+  });
+
+  const header = writeChunk('VP8X', [
+    new Uint8Array([(hasAlpha ? 0x10 : 0) | 0x02, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]),
+  ]);
+  // Background color (BGRA) and loop count; 0 loops forever
+  const animation = writeChunk('ANIM', [new Uint8Array([0, 0, 0, 0, 0, 0])]);
+  const body = [header, animation, ...animationFrames];
+  const size = 4 + body.reduce((sum, part) => sum + part.length, 0);
+
+  const riff = new Uint8Array(12);
+  riff.set(Array.from('RIFFxxxxWEBP', c => c.charCodeAt(0)));
+  new DataView(riff.buffer).setUint32(4, size, true);
+  return new Blob([riff, ...body], { type: 'image/webp' });
+};
@@ -5,11 +5,134 @@ export interface ImageResult {
   prompt: string;
   model: string;
   timestamp: number;
+  runId?: string; // Groups results produced by the same Generate click
+  sourceImageId?: string; // Key of the uploaded source in the library's source store
+  deletedAt?: number; // Set when moved to the history trash
+  angle?: AngleRef; // Which camera angle of the run this result fills
+  aspectRatio?: AspectRatio;
+  size?: ImageSize;
+  parentIds?: string[]; // Library images this one was derived from (e.g. the original of an upscale)
+  operation?: ImageOperation; // How this image was produced, so it can be re-run
+  candidate?: CandidateInfo; // Set when the run asked for several candidates of one prompt
+  winner?: boolean; // Picked as the best candidate of its run
+  recipe?: PromptRecipe; // Template and options `prompt` was composed from
+}
+
+export type OperationType = 'generate' | 'angle' | 'upscale' | 'edit' | 'refine';
+
+export interface OperationParams {
+  prompt: string; // Prompt as sent to the model
+  aspectRatio?: AspectRatio;
+  size?: ImageSize;
+  mask?: string; // Inpainting mask (edit only)
+  feather?: number; // Mask edge feather in px (edit only)
+  references?: ReferenceImage[]; // Reference images sent along (angle only)
+  seed?: number; // Sampling seed (generate only)
+  temperature?: number;
+}
+
+export interface ImageOperation {
+  type: OperationType;
+  params: OperationParams;
+}
+
+// How candidates of one prompt are made to differ from each other
+export type CandidateVariation = 'none' | 'seed' | 'seed-temperature';
+
+export interface CandidateInfo {
+  index: number; // 0-based position among the run's candidates
+  count: number;
+  seed?: number;
+  temperature?: number;
+}
+
+export interface LineageNode {
+  image: ImageResult;
+  children: LineageNode[];
+}
+
+export interface AngleRef {
+  id: string;
+  name: string;
+  index: number; // Position in the run's angle list, used to keep grid order
+  prompt: string; // Full prompt sent for this angle, reused on retry/regenerate
+}
+
+export interface AngleFailure {
+  runId: string;
+  angle: AngleRef;
+  error: string;
+  modelText?: string; // What the model said instead of returning an image
+  sourceImageId?: string;
+  operation: ImageOperation; // What was attempted, so a retry sends the same request
+}
+
+// An image as returned by the service layer: a data URL plus the MIME type the model reported.
+export interface GeneratedImage {
+  data: string;
+  mimeType: string;
+  usage?: TokenUsage; // Token counts the service reported for the call, if any
+}
+
+// A text reply of the service layer, such as a rephrased prompt
+export interface GeneratedText {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageOperation = 'generate' | 'edit' | 'upscale' | 'inpaint' | 'refine' | 'rephrase';
+
+// One billed provider call in the usage ledger
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  operation: UsageOperation;
+  size?: ImageSize;
+  usage?: TokenUsage; // Missing when the provider reports no counts; cost is then estimated
+  outcome?: 'success' | 'failed'; // Missing on entries recorded before failed calls were; those succeeded
+}
+
+// USD prices of one model
+export interface ModelPrice {
+  inputPerMillion: number; // Per 1M input tokens
+  outputPerMillion: number; // Per 1M output tokens, images included
+  imageTokens: Partial<Record<ImageSize, number>>; // Output tokens of one image by size, for estimates
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  limit: number | null; // USD per session; null means no cap
+  mode: BudgetMode;
+}
+
+export interface HistoryRun {
+  id: string;
+  createdAt: number;
+  sourceImageId?: string;
+  images: ImageResult[];
+}
+
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'product';
+
+export interface ReferenceImage {
+  id: string;
+  data: string; // Data URL
+  role: ReferenceRole;
 }
 
 export enum GenerationMode {
   GENERATE = 'GENERATE',
   EDIT_ANGLES = 'EDIT_ANGLES',
+  INPAINT = 'INPAINT',
+  BATCH = 'BATCH',
 }
 
 export enum ImageSize {
@@ -18,4 +141,58 @@ export enum ImageSize {
   SIZE_4K = '4K',
 }
 
-export type AspectRatio = '1:1' | '3:4' | '4:3' | '16:9' | '9:16';
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+
+export interface CameraAngle {
+  id: string;
+  name: string;
+  promptSuffix: string;
+  enabled: boolean;
+}
+
+export interface AnglePack {
+  id: string;
+  name: string;
+  angles: CameraAngle[];
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string; // Prompt with {{variable}} placeholders
+  negativePrompt?: string;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  suffix: string; // Appended to the prompt
+  avoid?: string; // Added to the negative prompt
+}
+
+// Everything besides the prompt text that goes into the final prompt
+export interface PromptOptions {
+  variables: Record<string, string>;
+  styleId: string;
+  negativePrompt: string;
+}
+
+export interface PromptRecipe extends PromptOptions {
+  template: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One source image of a batch, run through the angle pipeline as its own run
+export interface BatchItem {
+  id: string;
+  name: string; // File name, with the folder path for dropped folders
+  data: string; // Data URL of the source
+  sourceImageId?: string;
+  runId: string;
+  status: BatchItemStatus;
+  completed: number; // Angle jobs finished so far, successful or not
+  failed: number;
+  total: number;
+  error?: string;
+}
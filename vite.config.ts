@@ -1,23 +1,42 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the API proxy the key stays on the server and is not built into the app
+    const useProxy = env.IMAGE_PROVIDER === 'proxy';
+    const apiKey = useProxy ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER ?? ''),
+        'process.env.GEMINI_PRO_MODEL': JSON.stringify(env.GEMINI_PRO_MODEL ?? ''),
+        'process.env.GEMINI_FLASH_MODEL': JSON.stringify(env.GEMINI_FLASH_MODEL ?? ''),
+        'process.env.GEMINI_TEXT_MODEL': JSON.stringify(env.GEMINI_TEXT_MODEL ?? ''),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS ?? ''),
+        'process.env.MOCK_FAILURE_RATE': JSON.stringify(env.MOCK_FAILURE_RATE ?? ''),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL ?? '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules', 'dist'],
       }
     };
 });